@@ -1,14 +1,6 @@
 document.addEventListener('DOMContentLoaded', async () => {
   await apphud.init({apiKey: "w2w_vAsN29VFXbA5iMVBWJn9kGG5Bq1dmtoUrSW", debug: true});
 
-  // Setup track event button
-  const eventButton = document.getElementById('track-event');
-  eventButton.addEventListener('click', (e) => {
-    e.preventDefault();
-
-    apphud.track("answer", { answer: e.target.dataset.eventName })
-  });
-
   // handle email save
   const emailBtn = document.getElementById('save-email-button');
   const emailInput = document.getElementById('email-input');
@@ -1,19 +1,44 @@
 // https://www.quirksmode.org/js/cookies.html
 
-const setCookie = (name: string, value: any, ttl: number): void => {
+import {CookieOptions} from "./types";
+import {config} from "./core/config/config";
+
+const cookieAttributes = (options: CookieOptions): string => {
+    const sameSite = options.sameSite || "lax";
+    let attributes = "; path=" + (options.path || "/");
+
+    if (options.domain) {
+        attributes += "; domain=" + options.domain;
+    }
+
+    attributes += "; samesite=" + sameSite;
+
+    if (options.secure || sameSite === "none") {
+        attributes += "; secure";
+    }
+
+    return attributes;
+};
+
+const setCookie = (name: string, value: any, ttl: number, options: CookieOptions = config.cookie || {}): void => {
     let expires = "";
-    const cookieDomain = "";
     if (ttl) {
         const date = new Date();
         date.setTime(date.getTime() + (ttl * 60 * 1000));
         expires = "; expires=" + (date as any).toGMTString();
     }
 
-    document.cookie = name + "=" + encodeURIComponent(value) + expires + cookieDomain + "; path=/; samesite=lax";
+    document.cookie = name + "=" + encodeURIComponent(value) + expires + cookieAttributes(options);
 };
 
-const getCookie = (name: string): string | null => {
+/**
+ * Get all values of cookie with given name.
+ * Browser returns several values when cookies with the same name are set for different domains or paths
+ * @param name - cookie name
+ */
+const getCookies = (name: string): string[] => {
     let i, c;
+    const values: string[] = [];
     const nameEQ = name + "=";
     const ca = document.cookie.split(';');
     for (i = 0; i < ca.length; i++) {
@@ -22,14 +47,20 @@ const getCookie = (name: string): string | null => {
             c = c.substring(1, c.length);
         }
         if (c.indexOf(nameEQ) === 0) {
-            return decodeURIComponent(c.substring(nameEQ.length, c.length));
+            values.push(decodeURIComponent(c.substring(nameEQ.length, c.length)));
         }
     }
-    return null;
+    return values;
+};
+
+const getCookie = (name: string): string | null => {
+    const values = getCookies(name);
+
+    return values.length > 0 ? values[0] : null;
 };
 
-const deleteCookie = (name: string): void => {
-    setCookie(name, "", -1);
+const deleteCookie = (name: string, options: CookieOptions = config.cookie || {}): void => {
+    setCookie(name, "", -1, options);
 };
 
-export {setCookie, getCookie, deleteCookie}
+export {setCookie, getCookie, getCookies, deleteCookie}
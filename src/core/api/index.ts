@@ -1,4 +1,5 @@
-import u, { logError } from '../../utils';
+import u from '../../utils';
+import {logger} from "../logger";
 import {config} from "../config/config";
 import {
     CustomerData,
@@ -12,9 +13,13 @@ import {
     SuccessMessage,
     AttributionData,
     CustomerSetup,
-    CustomerParams
+    CustomerParams,
+    ApiRequest,
+    RetryPolicy
 } from "../../types";
 import router from "./router";
+import {ApiError} from "../errors";
+import {mockBackend} from "./mockBackend";
 
 /**
  * Prepare base headers
@@ -60,23 +65,206 @@ const createEvent = async (data: Events): Promise<Message> => {
  * @param data - subscription data (product_id, user_id)
  */
 const createSubscription = async (providerId: string, data: SubscriptionParams): Promise<Subscription> => {
-    const response = await sendRequest('POST', router.subscribeUrl(providerId), data)
-
-    if (response.errors && response.errors.length > 0) {
-        logError('Subscription creation failed:', response.errors);
-    }
+    const response = await sendRequest('POST', router.subscribeUrl(providerId), data, true)
 
     return response.data.results as Subscription;
 }
 
 const createCustomer = async (providerId: string, data: CustomerParams): Promise<CustomerSetup> => {
-    const response = await sendRequest('POST', router.customerUrl(providerId), data)
+    const response = await sendRequest('POST', router.customerUrl(providerId), data, true)
 
-    if (response.errors && response.errors.length > 0) {
-        logError('Customer creation failed:', response.errors);
+    return response.data.results as CustomerSetup;
+}
+
+/**
+ * Send events while page is being unloaded. Regular requests are cancelled on navigation,
+ * so `fetch` with `keepalive` is used. `navigator.sendBeacon` is not used, as it can't carry
+ * the authorization header. Where keepalive is not supported, events stay queued until the next page load
+ * @param data - events data
+ * @returns promise resolved with response status, 0 if request failed, undefined if events were not sent
+ */
+const sendEventsOnUnload = (data: Events): Promise<number | undefined> => {
+    const body = JSON.stringify(data)
+
+    if (config.mock || (typeof Request !== 'undefined' && 'keepalive' in Request.prototype)) {
+        const request: ApiRequest = {
+            url: router.eventUrl(),
+            init: {
+                method: 'POST',
+                headers: requestHeaders(),
+                credentials: 'same-origin',
+                keepalive: true,
+                body: body
+            }
+        }
+
+        return send(request, 0, response => Promise.resolve(response.status))
+            .catch(() => 0)
     }
 
-    return response.data.results as CustomerSetup;
+    return Promise.resolve(undefined)
+}
+
+/**
+ * Headers of every API request
+ */
+const requestHeaders = (): HeadersInit => {
+    return {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Authorization': `Bearer ${config.apiKey}`,
+        ...config.headers
+    }
+}
+
+/**
+ * Pass request through interceptors, send it with configured transport and read the response.
+ * Request is aborted after `timeout` milliseconds if AbortController is supported,
+ * the timeout covers reading of the response body. Signal set by interceptor still aborts the request
+ * @param request - request url and options
+ * @param timeout - timeout in milliseconds, 0 to wait forever
+ * @param read - reads the response
+ */
+const send = async <T>(request: ApiRequest, timeout: number, read: (response: Response) => Promise<T>): Promise<T> => {
+    const transport = config.transport || mockBackend()?.transport || ((url: string, init: RequestInit) => fetch(url, init))
+
+    for (const interceptor of config.requestInterceptors || []) {
+        request = await interceptor(request)
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined = undefined
+
+    if (timeout > 0 && typeof AbortController !== 'undefined') {
+        const controller = new AbortController()
+        const signal = request.init.signal
+
+        if (signal?.aborted) {
+            controller.abort()
+        } else if (signal) {
+            signal.addEventListener('abort', () => controller.abort(), {once: true})
+        }
+
+        request.init.signal = controller.signal
+        timeoutId = setTimeout(() => {
+            logger.warn('Request timed out', {url: request.url})
+            controller.abort()
+        }, timeout)
+    }
+
+    try {
+        let response = await transport(request.url, request.init)
+
+        for (const interceptor of config.responseInterceptors || []) {
+            response = await interceptor(response, request)
+        }
+
+        return await read(response)
+    } finally {
+        clearTimeout(timeoutId)
+    }
+}
+
+/**
+ * Retry policy for the request: endpoint policy over `config.retryPolicy` over defaults
+ * @param url - request url
+ */
+const retryPolicyFor = (url: string): Required<RetryPolicy> => {
+    const path = url.replace(config.baseURL, '').split('?')[0]
+    let endpointPolicy: RetryPolicy = {}
+
+    for (const endpoint in config.endpointRetryPolicies || {}) {
+        const pattern = new RegExp('^' + endpoint.replace(/:[a-z_]+/gi, '[^/]+') + '$')
+
+        if (pattern.test(path)) {
+            endpointPolicy = config.endpointRetryPolicies![endpoint]
+            break
+        }
+    }
+
+    return {
+        retries: config.httpRetriesCount ?? 3,
+        delay: config.httpRetryDelay || 1000,
+        maxDelay: 30000,
+        statuses: [],
+        ...config.retryPolicy,
+        ...endpointPolicy
+    }
+}
+
+/**
+ * Whether request with given response status is worth retrying: timeouts, rate limits and server errors
+ * @param status - HTTP status
+ * @param policy - retry policy
+ */
+const isRetryableStatus = (status: number, policy: Required<RetryPolicy>): boolean => {
+    if (policy.statuses.length > 0) {
+        return policy.statuses.includes(status)
+    }
+
+    return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Whether failed request is worth sending again: network errors, timeouts and retryable statuses of its endpoint
+ * @param error - error of failed request
+ * @param url - request url
+ */
+const isRetryableError = (error: unknown, url: string): boolean => {
+    if (!(error instanceof ApiError) || error.status === 0) {
+        return true
+    }
+
+    return isRetryableStatus(error.status, retryPolicyFor(url))
+}
+
+/**
+ * Delay requested by `Retry-After` header of failed response
+ * @param response - failed response, if any
+ * @returns delay in milliseconds, undefined if header is missing or invalid
+ */
+const retryAfterDelay = (response?: Response): number | undefined => {
+    const retryAfter = response?.headers.get('Retry-After')
+
+    if (!retryAfter) {
+        return undefined
+    }
+
+    const seconds = Number(retryAfter)
+    const delay = isNaN(seconds) ? new Date(retryAfter).getTime() - Date.now() : seconds * 1000
+
+    return isNaN(delay) ? undefined : Math.max(delay, 0)
+}
+
+/**
+ * Delay before retry. Exponential backoff with jitter, so many clients do not retry at the same moment.
+ * `Retry-After` header takes precedence if it is present
+ * @param retryCount - number of retries made
+ * @param policy - retry policy
+ * @param response - failed response, if any
+ */
+const retryDelay = (retryCount: number, policy: Required<RetryPolicy>, response?: Response): number => {
+    const retryAfter = retryAfterDelay(response)
+
+    if (retryAfter !== undefined) {
+        return retryAfter
+    }
+
+    const delay = Math.min(policy.delay * Math.pow(2, retryCount), policy.maxDelay)
+
+    return delay / 2 + Math.random() * delay / 2
+}
+
+/**
+ * Read errors from body of failed response
+ * @param response - failed response
+ */
+const responseErrors = async (response: Response): Promise<BackendResponse["errors"]> => {
+    try {
+        const body = await response.json() as BackendResponse
+
+        return body.errors || []
+    } catch {
+        return []
+    }
 }
 
 /**
@@ -84,20 +272,16 @@ const createCustomer = async (providerId: string, data: CustomerParams): Promise
  * @param method - http method
  * @param url - url
  * @param data - request body / params
+ * @param rejectOnErrors - fail if backend returned errors along with successful status
+ * @throws ApiError if request failed after all retries
  */
-const sendRequest = async (method: string, url: string, data?: ApphudHash | null): Promise<BackendResponse> => {
-    async function attempt(retryCount: number): Promise<BackendResponse> {
-        let delay = config.httpRetryDelay || 1000
-
-        const headers: HeadersInit = {
-            'Content-Type': 'application/json; charset=utf-8',
-            'Authorization': `Bearer ${config.apiKey}`,
-            ...config.headers
-        }
+const sendRequest = async (method: string, url: string, data?: ApphudHash | null, rejectOnErrors: boolean = false): Promise<BackendResponse> => {
+    const policy = retryPolicyFor(url)
 
+    async function attempt(retryCount: number): Promise<BackendResponse> {
         const fetchParams: RequestInit = {
             method: method,
-            headers: headers,
+            headers: requestHeaders(),
             credentials: 'same-origin'
         }
 
@@ -105,23 +289,59 @@ const sendRequest = async (method: string, url: string, data?: ApphudHash | null
             fetchParams.body = JSON.stringify(data)
         }
 
+        if (!u.isOnline()) {
+            logger.info('Offline. Request is paused until connection is restored', {url});
+            await u.waitForOnline();
+        }
+
+        let response: Response | undefined
+
         try {
-            const response = await fetch(url, fetchParams)
+            return await send({url: url, init: fetchParams}, config.httpTimeout ?? 15000, async (received: Response): Promise<BackendResponse> => {
+                response = received
+
+                if (!received.ok) {
+                    throw new ApiError(`Network response was not ok: ${received.status}`, received.status, await responseErrors(received));
+                }
+
+                const body = await received.json() as BackendResponse;
+
+                if (rejectOnErrors && body.errors && body.errors.length > 0) {
+                    throw new ApiError('Request failed', received.status, body.errors);
+                }
+
+                return body;
+            });
+        } catch (e) {
+            const error = e instanceof ApiError ? e : new ApiError('Network request failed', response?.status || 0, [], e);
+
+            logger.warn('Attempt failed', {url, retryCount, error});
 
-            if (!response.ok) {
-                throw new Error('Network response was not ok');
+            // connection was lost during request: it is sent again when browser is back online without using a retry
+            if (!u.isOnline()) {
+                return attempt(retryCount);
             }
 
-            return await response.json() as BackendResponse;
-        } catch (error) {
-            console.error('Attempt failed:', error);
+            // client errors, like invalid API key or validation error, fail the same way on retry
+            if (response && (response.ok || !isRetryableStatus(response.status, policy))) {
+                throw error;
+            }
+
+            const retryAfter = retryAfterDelay(response);
+
+            // server asked to wait longer than policy allows: give up instead of retrying early
+            if (retryAfter !== undefined && retryAfter > policy.maxDelay) {
+                logger.error('Retry-After exceeds maximum retry delay', {url, retryAfter, error});
+                error.retryAfter = retryAfter;
+                throw error;
+            }
 
-            if (retryCount < (config.httpRetriesCount || 3)) {
-                await u.sleep(delay);
-                delay *= 2; // Exponential backoff
+            if (retryCount < policy.retries) {
+                await u.sleep(retryDelay(retryCount, policy, response));
                 return attempt(retryCount + 1);
             } else {
-                console.error('All retries failed.');
+                logger.error('All retries failed', {url, error});
+                error.retryAfter = retryAfter;
                 throw error;
             }
         }
@@ -130,4 +350,4 @@ const sendRequest = async (method: string, url: string, data?: ApphudHash | null
     return await attempt(0);
 }
 
-export default {createUser, createEvent, baseHeaders, createSubscription, setAttribution, createCustomer}
+export default {createUser, createEvent, sendEventsOnUnload, baseHeaders, createSubscription, setAttribution, createCustomer, isRetryableError}
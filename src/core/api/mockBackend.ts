@@ -0,0 +1,173 @@
+import {
+    AttributionData,
+    BackendResponse,
+    CustomerData,
+    EventData,
+    Events,
+    MockAttribution,
+    MockBackend,
+    MockFixtures,
+    MockRequest,
+    SubscriptionParams,
+    User
+} from "../../types";
+import {config} from "../config/config";
+import {ATTRIBUTION, EVENTS, PAYMENT_PROVIDER_CUSTOMERS, SUBSCRIBE, USERS} from "./endpoints";
+import {logger} from "../logger";
+import u from "../../utils";
+
+let resolvedOption: MockFixtures | string | undefined = undefined
+let resolvedBackend: MockServer | undefined = undefined
+
+/**
+ * Serves API requests in-process from fixtures, so pages can be built without Apphud API.
+ * Used as transport of API requests
+ */
+class MockServer implements MockBackend {
+    requests: MockRequest[] = []
+    events: EventData[] = []
+    attributions: MockAttribution[] = []
+    subscriptions: SubscriptionParams[] = []
+
+    private fixtures: Promise<MockFixtures>
+    private users: Map<string, User> = new Map()
+
+    /**
+     * @param fixtures - fixtures or URL of fixtures JSON
+     */
+    constructor(fixtures: MockFixtures | string) {
+        this.fixtures = typeof fixtures === "string" ? this.load(fixtures) : Promise.resolve(fixtures)
+    }
+
+    /**
+     * Handle request like API would
+     * @param url - request url
+     * @param init - request options
+     */
+    transport = async (url: string, init: RequestInit): Promise<Response> => {
+        const fixtures = await this.fixtures
+        const method = (init.method || "GET").toUpperCase()
+        const body = typeof init.body === "string" ? JSON.parse(init.body) : null
+        const [path, query] = url.replace(config.baseURL, "").split("?")
+
+        logger.debug("Mock request", {method, path, body})
+        this.requests.push({method: method, url: url, body: body})
+
+        if (fixtures.latency) {
+            await u.sleep(fixtures.latency)
+        }
+
+        if (method !== "POST") {
+            return this.respond(404, {})
+        }
+
+        if (path === USERS) {
+            return this.respond(200, this.user(fixtures, body as CustomerData))
+        }
+
+        if (path === EVENTS) {
+            this.events.push(...((body as Events).events || []))
+
+            return this.respond(200, {message: "ok"})
+        }
+
+        if (path === ATTRIBUTION) {
+            const params: Record<string, string> = {}
+
+            new URLSearchParams(query).forEach((value, key) => params[key] = value)
+            this.attributions.push({params: params, data: body as AttributionData})
+
+            return this.respond(200, {success: true})
+        }
+
+        if (this.matches(path, PAYMENT_PROVIDER_CUSTOMERS)) {
+            return this.respond(200, {id: "mock_customer", client_secret: "mock_client_secret", ...fixtures.customer})
+        }
+
+        if (this.matches(path, SUBSCRIBE)) {
+            this.subscriptions.push(body as SubscriptionParams)
+
+            return this.respond(200, {id: "mock_subscription", ...fixtures.subscription})
+        }
+
+        return this.respond(404, {})
+    }
+
+    clear(): void {
+        this.requests = []
+        this.events = []
+        this.attributions = []
+        this.subscriptions = []
+    }
+
+    /**
+     * User with fixture data. Customer data sent before, like email, is kept between requests
+     * @param fixtures - fixtures
+     * @param data - customer data from request
+     * @private
+     */
+    private user(fixtures: MockFixtures, data: CustomerData): User {
+        const userID = data.user_id || data.device_id || "mock_user"
+        const fixture = (fixtures.users || []).find(user => user.user_id === userID) || (fixtures.users || [])[0] || {}
+        const previous = this.users.get(userID)
+
+        const user: User = {
+            id: `mock_${userID}`,
+            user_id: userID,
+            email: data.email ?? previous?.email ?? null,
+            locale: data.locale,
+            is_sandbox: true,
+            currency: {code: data.currency_code || "USD", country_code: data.country_code || "US"},
+            paywalls: fixtures.paywalls || [],
+            placements: fixtures.placements || [],
+            payment_providers: fixtures.paymentProviders || [],
+            ...fixture
+        }
+
+        this.users.set(userID, user)
+
+        return user
+    }
+
+    private matches(path: string, endpoint: string): boolean {
+        return new RegExp("^" + endpoint.replace(":id", "[^/]+") + "$").test(path)
+    }
+
+    private respond(status: number, results: object): Response {
+        const body: BackendResponse = {
+            data: {results: results, meta: {}},
+            errors: status === 404 ? [{id: "not_found", title: "Not found"}] : []
+        }
+
+        return new Response(JSON.stringify(body), {status: status, headers: {"Content-Type": "application/json"}})
+    }
+
+    private async load(url: string): Promise<MockFixtures> {
+        try {
+            const response = await fetch(url)
+
+            return await response.json() as MockFixtures
+        } catch (e) {
+            logger.error("Failed to load mock fixtures", {url, error: e})
+            return {}
+        }
+    }
+}
+
+/**
+ * Mock backend configured with `config.mock`, or undefined if mock mode is off
+ */
+export const mockBackend = (): MockServer | undefined => {
+    if (!config.mock) {
+        return undefined
+    }
+
+    if (!resolvedBackend || resolvedOption !== config.mock) {
+        resolvedBackend = new MockServer(config.mock)
+        resolvedOption = config.mock
+    }
+
+    return resolvedBackend
+}
+
+export default MockServer
@@ -0,0 +1,71 @@
+import {ApphudHash} from "../../types";
+import {TrackDataAttribute, TrackPropertyDataAttributePrefix} from "../config/constants";
+import u from "../../utils";
+import {logger} from "../logger";
+
+/**
+ * Tracks clicks on elements marked with `data-aph-track="event_name"`.
+ * `data-aph-prop-*` attributes of the marked element become event properties
+ */
+class ClickTracker {
+    private started: boolean = false
+
+    /**
+     * @param onClick - called with event name and properties when marked element is clicked
+     */
+    constructor(private onClick: (name: string, properties: ApphudHash) => void) {}
+
+    start(): void {
+        if (this.started) {
+            return
+        }
+
+        this.started = true
+
+        // capture phase: clicks are seen even if page stops their propagation
+        document.addEventListener("click", (e: MouseEvent) => this.handleClick(e), true)
+    }
+
+    private handleClick(e: MouseEvent): void {
+        const element = u.getClosestElement(e.target, TrackDataAttribute)
+
+        if (!element) {
+            return
+        }
+
+        const name = element.getAttribute(TrackDataAttribute)
+
+        if (!name) {
+            return
+        }
+
+        const properties = this.readProperties(element)
+
+        logger.debug("Track click", {name, properties})
+
+        this.onClick(name, properties)
+    }
+
+    /**
+     * Read `data-aph-prop-*` attributes. `data-aph-prop-button-name` becomes `button_name` property
+     * @param element - tracked element
+     * @private
+     */
+    private readProperties(element: Element): ApphudHash {
+        const properties: ApphudHash = {}
+
+        for (let i = 0; i < element.attributes.length; i++) {
+            const attribute = element.attributes[i]
+
+            if (attribute.name.indexOf(TrackPropertyDataAttributePrefix) === 0) {
+                const key = attribute.name.substring(TrackPropertyDataAttributePrefix.length).replace(/-/g, "_")
+
+                properties[key] = attribute.value
+            }
+        }
+
+        return properties
+    }
+}
+
+export default ClickTracker
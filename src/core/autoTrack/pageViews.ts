@@ -0,0 +1,60 @@
+import {logger} from "../logger";
+
+/**
+ * Detects page loads and route changes of single-page apps.
+ * `history.pushState` and `history.replaceState` are wrapped, because browsers emit no event for them
+ */
+class PageViewTracker {
+    private started: boolean = false
+    private lastUrl: string | null = null
+
+    /**
+     * @param onPageView - called with page referrer when new page is shown
+     */
+    constructor(private onPageView: (referrer: string) => void) {}
+
+    start(): void {
+        if (this.started) {
+            return
+        }
+
+        this.started = true
+
+        this.wrapHistoryMethod("pushState")
+        this.wrapHistoryMethod("replaceState")
+        window.addEventListener("popstate", () => this.check())
+
+        this.check()
+    }
+
+    private wrapHistoryMethod(method: "pushState" | "replaceState"): void {
+        const original = window.history[method]
+
+        window.history[method] = (...args: Parameters<History["pushState"]>): void => {
+            original.apply(window.history, args)
+            this.check()
+        }
+    }
+
+    /**
+     * Report page view if URL changed. Changes of hash only are ignored
+     * @private
+     */
+    private check(): void {
+        const url = window.location.href.split("#")[0]
+
+        if (url === this.lastUrl) {
+            return
+        }
+
+        const referrer = this.lastUrl === null ? document.referrer : this.lastUrl
+
+        this.lastUrl = url
+
+        logger.debug("Page view", {url})
+
+        this.onPageView(referrer)
+    }
+}
+
+export default PageViewTracker
@@ -9,10 +9,19 @@ export const config: Config = {
     httpRetriesCount: 3,
     language: "en",
     httpRetryDelay: 1000,
+    httpTimeout: 15000,
     redirectDelay: 1000,
+    eventsBatchSize: 10,
+    eventsFlushInterval: 1000,
+    sessionTimeout: 30,
     headers: {},
     stripeLiveKey: "pk_live_4iYTlDlSJeqsh5ZAZNuDsLte004vt1l4tS",
     stripeTestKey: "pk_test_leENTjttGVwRY2ZkCk0UaaiG00oeNHfn4o",
+    storage: "cookie",
+    cookie: {
+        path: "/",
+        sameSite: "lax"
+    },
     options: {
         use_sepa_debit: true,
         use_bancontact: true
@@ -1,9 +1,22 @@
 export const StartAppVersionKey: string = "aph_start_version";
 export const UserIdKey: string = "aph_user_id";
+export const CustomerIdKey: string = "aph_customer_id";
 export const EventsKey: string = "aph_events";
 export const UserCookieDuration: number = 2 * 365 * 24 * 60
 export const VariableDataAttribute: string = "data-aph-var";
+export const TrackDataAttribute: string = "data-aph-track";
+export const TrackPropertyDataAttributePrefix: string = "data-aph-prop-";
 export const PaymentFormContainer: string = "#apphud-payment-form";
 export const SelectedBundleIndex: string = "aph_selected_bundle_index";
 export const DeepLinkURL: string = "aph_deep_link_url";
+export const SessionKey: string = "aph_session";
+export const SessionStorageDuration: number = 7 * 24 * 60;
+export const UserPropertiesKey: string = "aph_user_properties";
+export const ConsentKey: string = "aph_consent";
+export const SuperPropertiesKey: string = "aph_super_properties";
+export const FBExternalIdSentKey: string = "apphud_fb_external_id_sent";
 export const SelectedProductDuration: number = 2 * 365 * 24 * 60;
+export const UserRefreshDelay: number = 500;
+export const PlacementsCacheKey: string = "aph_placements";
+export const PlacementsCacheDuration: number = 24 * 60;
+export const BootstrapScriptID: string = "apphud-bootstrap";
@@ -0,0 +1,66 @@
+import {Consent, ConsentCategory, ConsentState} from "../types";
+import {config} from "./config/config";
+import {ConsentKey, DeepLinkURL, SelectedBundleIndex} from "./config/constants";
+
+/**
+ * Storage keys required for checkout. They are saved regardless of consent
+ */
+const NecessaryStorageKeys: string[] = [ConsentKey, SelectedBundleIndex, DeepLinkURL]
+
+/**
+ * Keeps user consent by category. Without `config.consentRequired` every category is granted
+ */
+class ConsentManager {
+    private choices: Consent = {}
+
+    /**
+     * Consent state of category. Necessary category is always granted
+     * @param category - consent category
+     */
+    state(category: ConsentCategory): ConsentState {
+        if (category === "necessary" || !config.consentRequired) {
+            return "granted"
+        }
+
+        const choice = this.choices[category]
+
+        if (choice === undefined) {
+            return "pending"
+        }
+
+        return choice ? "granted" : "denied"
+    }
+
+    isGranted(category: ConsentCategory): boolean {
+        return this.state(category) === "granted"
+    }
+
+    /**
+     * Whether value can be saved to persistent storage
+     * @param key - storage key
+     */
+    canPersist(key: string): boolean {
+        return NecessaryStorageKeys.includes(key) || this.isGranted("analytics")
+    }
+
+    /**
+     * Current choices
+     */
+    get(): Consent {
+        return {...this.choices}
+    }
+
+    /**
+     * Update choices. Categories missing in `consent` keep their state
+     * @param consent - user choices
+     */
+    update(consent: Consent): void {
+        this.choices = {...this.choices, ...consent}
+    }
+
+    clear(): void {
+        this.choices = {}
+    }
+}
+
+export const consent = new ConsentManager()
@@ -0,0 +1,93 @@
+import {Error as BackendError, PaymentProviderKind} from "../types";
+
+/**
+ * Base class of errors thrown and emitted by Apphud SDK
+ */
+export class ApphudError extends Error {
+    /**
+     * @param message - error description
+     * @param cause - original error
+     */
+    constructor(message: string, public cause?: unknown) {
+        super(message)
+        this.name = "ApphudError"
+        // keep instanceof working when compiled to ES5
+        Object.setPrototypeOf(this, new.target.prototype)
+    }
+}
+
+/**
+ * Apphud API request failed
+ */
+export class ApiError extends ApphudError {
+    /**
+     * Milliseconds the server asked to wait before the next request, if known
+     */
+    public retryAfter?: number
+
+    /**
+     * @param message - error description
+     * @param status - HTTP status, 0 if request did not reach the server
+     * @param errors - errors returned by backend
+     * @param cause - original error
+     */
+    constructor(message: string, public status: number, public errors: BackendError[] = [], cause?: unknown) {
+        super(message, cause)
+        this.name = "ApiError"
+    }
+}
+
+/**
+ * SDK is not configured properly, e.g. API key is missing
+ */
+export class ConfigError extends ApphudError {
+    constructor(message: string, cause?: unknown) {
+        super(message, cause)
+        this.name = "ConfigError"
+    }
+}
+
+/**
+ * Payment provider is not available or failed to set up payment form
+ */
+export class PaymentProviderError extends ApphudError {
+    /**
+     * @param message - error description
+     * @param provider - payment provider kind
+     * @param cause - original error
+     */
+    constructor(message: string, public provider?: PaymentProviderKind, cause?: unknown) {
+        super(message, cause)
+        this.name = "PaymentProviderError"
+    }
+}
+
+/**
+ * Requested placement does not exist or has no paywall
+ */
+export class PlacementNotFoundError extends ApphudError {
+    /**
+     * @param message - error description
+     * @param placementID - identifier of requested placement
+     */
+    constructor(message: string, public placementID: string) {
+        super(message)
+        this.name = "PlacementNotFoundError"
+    }
+}
+
+/**
+ * Event was not delivered to Apphud
+ */
+export class EventDeliveryError extends ApphudError {
+    /**
+     * @param message - error description
+     * @param insertId - insert id of the event
+     * @param eventName - name of the event
+     * @param cause - original error
+     */
+    constructor(message: string, public insertId: string, public eventName: string, cause?: unknown) {
+        super(message, cause)
+        this.name = "EventDeliveryError"
+    }
+}
@@ -0,0 +1,443 @@
+import {EventData, Events} from "../../types";
+import {config} from "../config/config";
+import api from "../api";
+import router from "../api/router";
+import u from "../../utils";
+import {logger} from "../logger";
+import EventOutbox from "./outbox";
+import {ApiError, ApphudError, EventDeliveryError} from "../errors";
+
+/**
+ * Statuses of requests rejected because of their content. Such batch fails the same way every time
+ */
+const RejectedBatchStatuses = [400, 413, 422]
+
+/**
+ * Maximum delay between failed delivery rounds in milliseconds
+ */
+const MaxRetryDelay = 5 * 60 * 1000
+
+/**
+ * Failed delivery rounds in a row after which `trackAsync` events are given up
+ */
+const MaxFailedRounds = 5
+
+interface DeliveryWaiter {
+    name: string
+    resolve: () => void
+    reject: (error: EventDeliveryError) => void
+}
+
+/**
+ * Delivers events from the outbox in batches.
+ * Batch is sent when it reaches `config.eventsBatchSize` events or after `config.eventsFlushInterval` milliseconds
+ */
+class EventDispatcher {
+    private started: boolean = false
+    private flushTimer: ReturnType<typeof setTimeout> | undefined = undefined
+    private inFlight: Set<string> = new Set()
+    private refreshPlacements: boolean = false
+    private waiters: Map<string, DeliveryWaiter> = new Map()
+    private halted: boolean = false
+    private failures: number = 0
+    private retryAt: number = 0
+    private generation: number = 0
+
+    /**
+     * @param outbox - persistent events queue
+     * @param onDelivered - called after batch is delivered
+     * @param onError - called when batch was not delivered
+     */
+    constructor(
+        private outbox: EventOutbox,
+        private onDelivered: (refreshPlacements: boolean) => void,
+        private onError: (error: ApphudError) => void
+    ) {}
+
+    /**
+     * Start delivery of queued events. Events are only queued before start
+     */
+    start(): void {
+        this.halted = false
+        this.resetBackoff()
+
+        if (!this.started) {
+            this.started = true
+            this.listenForUnload()
+            this.listenForConnection()
+        }
+
+        this.schedule()
+    }
+
+    /**
+     * Queue event for delivery
+     * @param event - event data
+     * @param refreshPlacements - whether to refresh placements after delivery
+     */
+    enqueue(event: EventData, refreshPlacements: boolean = false): void {
+        this.outbox.add(event)
+        this.refreshPlacements = this.refreshPlacements || refreshPlacements
+        this.settleDropped()
+        this.schedule()
+    }
+
+    /**
+     * Queue event for delivery and wait until backend accepts it
+     * @param event - event data
+     * @param refreshPlacements - whether to refresh placements after delivery
+     */
+    enqueueAndWait(event: EventData, refreshPlacements: boolean = false): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.outbox.add(event)
+
+            const insertId = event.insert_id!
+
+            if (this.outbox.isDelivered(insertId)) {
+                resolve()
+                return
+            }
+
+            this.waiters.set(insertId, {name: event.name, resolve: resolve, reject: reject})
+
+            if (this.halted) {
+                this.rejectWaiters([insertId], "Events delivery stopped")
+                return
+            }
+
+            this.refreshPlacements = this.refreshPlacements || refreshPlacements
+            this.settleDropped()
+            this.schedule()
+        })
+    }
+
+    /**
+     * Drop all queued events. Results of batches sent before are ignored
+     */
+    clear(): void {
+        this.generation++
+        this.cancelTimer()
+        this.outbox.clear()
+        this.inFlight.clear()
+        this.settleDropped()
+    }
+
+    /**
+     * Send next batch of queued events
+     */
+    async flush(): Promise<void> {
+        this.cancelTimer()
+
+        const batch = this.nextBatch()
+
+        if (batch.length === 0) {
+            return
+        }
+
+        const insertIds = batch.map(event => event.insert_id!)
+        const refreshPlacements = this.refreshPlacements
+        const generation = this.generation
+
+        insertIds.forEach(id => this.inFlight.add(id))
+        this.outbox.lease(insertIds)
+        this.refreshPlacements = false
+
+        logger.debug("Send events batch", {batch})
+
+        try {
+            await api.createEvent(this.eventsData(batch))
+
+            if (generation !== this.generation) {
+                return
+            }
+
+            this.outbox.acknowledge(insertIds)
+            this.resolveWaiters(insertIds)
+            this.resetBackoff()
+            this.onDelivered(refreshPlacements)
+        } catch (e) {
+            if (generation !== this.generation) {
+                return
+            }
+
+            this.onError(e instanceof ApphudError ? e : new ApphudError("Failed to send events", e))
+            this.refreshPlacements = this.refreshPlacements || refreshPlacements
+            this.handleFailure(batch, e)
+        } finally {
+            insertIds.forEach(id => this.inFlight.delete(id))
+        }
+
+        this.schedule()
+    }
+
+    /**
+     * Send all queued events with requests that survive page unload
+     */
+    flushOnUnload(): void {
+        this.cancelTimer()
+
+        if (!u.isOnline() || this.halted || this.retryAt > Date.now()) {
+            return
+        }
+
+        const generation = this.generation
+        let batch: EventData[]
+
+        while ((batch = this.nextBatch()).length > 0) {
+            const insertIds = batch.map(event => event.insert_id!)
+
+            logger.debug("Send events batch on unload", {batch})
+
+            insertIds.forEach(id => this.inFlight.add(id))
+            this.outbox.lease(insertIds)
+
+            const result = api.sendEventsOnUnload(this.eventsData(batch))
+
+            result.then(status => {
+                if (generation !== this.generation) {
+                    return
+                }
+
+                insertIds.forEach(id => this.inFlight.delete(id))
+
+                if (status === undefined) {
+                    this.outbox.release(insertIds)
+                } else if (status >= 200 && status < 300) {
+                    this.outbox.acknowledge(insertIds)
+                    this.resolveWaiters(insertIds)
+                    this.resetBackoff()
+                } else {
+                    this.handleFailure(batch, status === 0
+                        ? new ApiError("Network request failed", 0)
+                        : new ApiError(`Network response was not ok: ${status}`, status))
+                }
+            })
+        }
+    }
+
+    /**
+     * Retry failed batch later, drop it if backend rejected its content,
+     * or stop delivery if every batch would fail the same way
+     * @param batch - events that were not delivered
+     * @param error - delivery error
+     * @private
+     */
+    private handleFailure(batch: EventData[], error: unknown): void {
+        const insertIds = batch.map(event => event.insert_id!)
+
+        if (api.isRetryableError(error, router.eventUrl())) {
+            this.backOff(error instanceof ApiError ? error.retryAfter : undefined)
+            this.outbox.release(insertIds)
+
+            if (this.failures >= MaxFailedRounds) {
+                this.rejectWaiters(insertIds, "Event was not delivered after all retries", error)
+            }
+        } else if (error instanceof ApiError && RejectedBatchStatuses.includes(error.status)) {
+            logger.warn("Events batch rejected by backend. Drop it", {status: error.status, batch})
+            this.outbox.remove(insertIds)
+            this.rejectWaiters(insertIds, "Event was rejected by backend", error)
+        } else {
+            // e.g. invalid API key: every batch fails the same way until page is reloaded
+            logger.error("Events delivery stopped", {error})
+            this.halted = true
+            this.outbox.release(insertIds)
+            this.rejectWaiters(this.waitedIds().filter(id => insertIds.includes(id) || !this.inFlight.has(id)), "Events delivery stopped", error)
+        }
+    }
+
+    private resolveWaiters(insertIds: string[]): void {
+        insertIds.forEach(id => {
+            this.waiters.get(id)?.resolve()
+            this.waiters.delete(id)
+        })
+    }
+
+    /**
+     * Reject waiters and remove their events from the outbox,
+     * so rejected event is never sent later and can be tracked again without duplicates
+     * @param insertIds - insert ids of events
+     * @param message - error description
+     * @param cause - original error
+     * @private
+     */
+    private rejectWaiters(insertIds: string[], message: string, cause?: unknown): void {
+        const rejected = insertIds.filter(id => this.waiters.has(id))
+
+        if (rejected.length === 0) {
+            return
+        }
+
+        this.outbox.remove(rejected)
+
+        rejected.forEach(id => {
+            const waiter = this.waiters.get(id)!
+
+            waiter.reject(new EventDeliveryError(message, id, waiter.name, cause))
+            this.waiters.delete(id)
+        })
+    }
+
+    private waitedIds(): string[] {
+        return Array.from(this.waiters.keys())
+    }
+
+    /**
+     * Reject waiters of events evicted from the outbox or dropped by reset
+     * @private
+     */
+    private settleDropped(): void {
+        const queued = this.outbox.pending().map(event => event.insert_id!)
+        const dropped = this.waitedIds().filter(id => !queued.includes(id) && !this.inFlight.has(id))
+
+        this.resolveWaiters(dropped.filter(id => this.outbox.isDelivered(id)))
+        this.rejectWaiters(dropped, "Event was dropped from the queue")
+    }
+
+    /**
+     * Events are kept in the outbox while browser is offline and sent when connection is restored
+     * @private
+     */
+    private listenForConnection(): void {
+        window.addEventListener("online", () => {
+            logger.debug("Online. Resume events delivery")
+            this.halted = false
+            this.resetBackoff()
+            this.schedule()
+        })
+
+        window.addEventListener("offline", () => {
+            logger.debug("Offline. Pause events delivery")
+            this.cancelTimer()
+        })
+    }
+
+    /**
+     * Page may be closed or discarded after it is hidden, so pending events are sent right away
+     * @private
+     */
+    private listenForUnload(): void {
+        window.addEventListener("pagehide", () => this.flushOnUnload())
+
+        document.addEventListener("visibilitychange", () => {
+            if (document.visibilityState === "hidden") {
+                this.flushOnUnload()
+            }
+        })
+    }
+
+    /**
+     * Delay next delivery round after failure. Delay doubles with every failed round in a row,
+     * and is never shorter than the wait requested by the server
+     * @param retryAfter - milliseconds requested by `Retry-After` header
+     * @private
+     */
+    private backOff(retryAfter: number = 0): void {
+        const delay = Math.min(Math.max(this.flushInterval(), 1000) * Math.pow(2, this.failures), MaxRetryDelay)
+
+        this.failures++
+        this.retryAt = Date.now() + Math.max(delay / 2 + Math.random() * delay / 2, retryAfter)
+
+        logger.debug("Retry events delivery later", {delay: this.retryAt - Date.now()})
+    }
+
+    private resetBackoff(): void {
+        this.failures = 0
+        this.retryAt = 0
+    }
+
+    /**
+     * Flush immediately if batch is full, otherwise wait for flush interval.
+     * After failed round, wait until backoff delay is over
+     * @private
+     */
+    private schedule(): void {
+        if (!this.started || this.halted || !u.isOnline()) {
+            return
+        }
+
+        const pending = this.pendingEvents().length
+
+        if (pending === 0) {
+            return
+        }
+
+        const backoff = Math.max(0, this.retryAt - Date.now())
+        const full = pending >= this.batchSize()
+
+        // full batch does not wait for the flush interval timer
+        if (full && backoff === 0) {
+            this.flush()
+            return
+        }
+
+        if (this.flushTimer !== undefined) {
+            return
+        }
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined
+            this.flush()
+        }, full ? backoff : Math.max(backoff, this.flushInterval()))
+    }
+
+    private cancelTimer(): void {
+        if (this.flushTimer !== undefined) {
+            clearTimeout(this.flushTimer)
+            this.flushTimer = undefined
+        }
+    }
+
+    private flushInterval(): number {
+        return config.eventsFlushInterval ?? 1000
+    }
+
+    private batchSize(): number {
+        return Math.max(1, config.eventsBatchSize || 1)
+    }
+
+    private pendingEvents(): EventData[] {
+        return this.outbox.pending().filter(event => !this.inFlight.has(event.insert_id!))
+    }
+
+    /**
+     * Oldest queued events of the same user, up to batch size
+     * @private
+     */
+    private nextBatch(): EventData[] {
+        const pending = this.pendingEvents()
+
+        if (pending.length === 0) {
+            return []
+        }
+
+        const first = pending[0]
+
+        return pending
+            .filter(event => event.user_id === first.user_id && event.device_id === first.device_id)
+            .slice(0, this.batchSize())
+    }
+
+    /**
+     * Move device_id and user_id from events to the request
+     * @param batch - events of the same user
+     * @private
+     */
+    private eventsData(batch: EventData[]): Events {
+        const events = batch.map(event => {
+            // keep ids on queued events in case they have to be sent again
+            const data = {...event}
+            delete data.device_id
+            delete data.user_id
+
+            return data
+        })
+
+        return {
+            events: events,
+            device_id: batch[0].device_id,
+            user_id: batch[0].user_id,
+        }
+    }
+}
+
+export default EventDispatcher
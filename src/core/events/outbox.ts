@@ -0,0 +1,276 @@
+import {EventData, OutboxOptions, StorageAdapter} from "../../types";
+import u, {canStringify} from "../../utils";
+import {logger} from "../logger";
+
+const DefaultMaxEvents = 100
+const DefaultMaxSize = 256 * 1024
+const DefaultMaxAge = 7 * 24 * 60
+const DefaultDedupeWindow = 24 * 60
+const MaxDeliveredIds = 1000
+const LeaseDuration = 60 * 1000
+
+export interface OutboxEntry {
+    event: EventData
+    queued_at: number
+    /**
+     * Tab sending the event and time until which other tabs must not send it
+     */
+    lease?: { owner: string, until: number }
+}
+
+/**
+ * Persistent queue of events waiting to be delivered.
+ * Events stay in the outbox until backend acknowledges them by `insert_id`.
+ * Insert ids of delivered events are remembered for `dedupeWindow`,
+ * so an event restored after reload or crash is not sent again.
+ * Storage is shared by open tabs: it is re-read before every change,
+ * and events being sent by one tab are leased, so other tabs skip them
+ */
+class EventOutbox {
+    private entries: OutboxEntry[] = []
+    private delivered: { [insertId: string]: number } = {}
+    private deliveredKey: string
+    private owner: string = u.generateId()
+    private unsaved: boolean = false
+
+    constructor(private store: StorageAdapter, private key: string, private options: OutboxOptions = {}) {
+        this.deliveredKey = key + "_delivered"
+    }
+
+    /**
+     * Restore saved events. Delivered, expired and overflowing events are evicted
+     */
+    load(): void {
+        this.sync()
+        this.evict()
+        this.save()
+        this.saveDelivered()
+    }
+
+    /**
+     * Add event to the outbox. Generates `insert_id` if event has none
+     * @param event - event data
+     */
+    add(event: EventData): void {
+        if (!event.insert_id) {
+            event.insert_id = u.generateId()
+        }
+
+        this.sync()
+
+        if (this.isDelivered(event.insert_id) || this.entries.some(entry => entry.event.insert_id === event.insert_id)) {
+            logger.debug("Skip duplicate event", {insertID: event.insert_id})
+            return
+        }
+
+        this.entries.push({event: event, queued_at: Date.now()})
+        this.evict()
+        this.save()
+    }
+
+    /**
+     * Remove delivered events
+     * @param insertIds - insert ids of events accepted by backend
+     */
+    acknowledge(insertIds: string[]): void {
+        const now = Date.now()
+
+        this.sync()
+
+        // delivered ids are saved first: if page dies before the outbox is saved, events are skipped on restore
+        insertIds.forEach(id => this.delivered[id] = now)
+        this.saveDelivered()
+
+        this.entries = this.entries.filter(entry => !insertIds.includes(entry.event.insert_id!))
+        this.save()
+    }
+
+    /**
+     * Remove events without marking them delivered, e.g. when backend rejected them
+     * @param insertIds - insert ids of events
+     */
+    remove(insertIds: string[]): void {
+        this.sync()
+        this.entries = this.entries.filter(entry => !insertIds.includes(entry.event.insert_id!))
+        this.save()
+    }
+
+    /**
+     * Lease events to this tab while they are being sent
+     * @param insertIds - insert ids of events being sent
+     */
+    lease(insertIds: string[]): void {
+        const until = Date.now() + LeaseDuration
+
+        this.sync()
+        this.entries
+            .filter(entry => insertIds.includes(entry.event.insert_id!))
+            .forEach(entry => entry.lease = {owner: this.owner, until: until})
+        this.save()
+    }
+
+    /**
+     * Release events leased by this tab, so they can be sent again
+     * @param insertIds - insert ids of events that were not delivered
+     */
+    release(insertIds: string[]): void {
+        this.sync()
+        this.entries
+            .filter(entry => insertIds.includes(entry.event.insert_id!) && entry.lease?.owner === this.owner)
+            .forEach(entry => delete entry.lease)
+        this.save()
+    }
+
+    /**
+     * Whether event was delivered within dedupe window
+     * @param insertId - event insert id
+     */
+    isDelivered(insertId: string): boolean {
+        const deliveredAt = this.delivered[insertId]
+
+        return deliveredAt !== undefined && Date.now() - deliveredAt < this.dedupeWindow()
+    }
+
+    /**
+     * Events waiting for delivery, oldest first. Events being sent by other tabs are skipped
+     */
+    pending(): EventData[] {
+        const now = Date.now()
+
+        this.sync()
+
+        return this.entries
+            .filter(entry => !this.isDelivered(entry.event.insert_id!))
+            .filter(entry => !entry.lease || entry.lease.owner === this.owner || entry.lease.until <= now)
+            .map(entry => entry.event)
+    }
+
+    /**
+     * Remove all events. Delivered ids are kept to skip duplicates
+     */
+    clear(): void {
+        this.entries = []
+        this.unsaved = false
+        this.store.delete(this.key)
+    }
+
+    /**
+     * Drop expired events, then the oldest ones until the outbox fits its limits
+     * @private
+     */
+    private evict(): void {
+        const maxAge = (this.options.maxAge || DefaultMaxAge) * 60 * 1000
+        const maxEvents = this.options.maxEvents || DefaultMaxEvents
+        const maxSize = this.options.maxSize || DefaultMaxSize
+        const now = Date.now()
+        const before = this.entries.length
+
+        this.entries = this.entries.filter(entry =>
+            entry.event && now - entry.queued_at < maxAge && !this.isDelivered(entry.event.insert_id!)
+        )
+
+        for (const id in this.delivered) {
+            if (!this.isDelivered(id)) {
+                delete this.delivered[id]
+            }
+        }
+
+        const deliveredIds = Object.keys(this.delivered)
+
+        if (deliveredIds.length > MaxDeliveredIds) {
+            deliveredIds
+                .sort((a, b) => this.delivered[a] - this.delivered[b])
+                .slice(0, deliveredIds.length - MaxDeliveredIds)
+                .forEach(id => delete this.delivered[id])
+        }
+
+        if (this.entries.length > maxEvents) {
+            this.entries.splice(0, this.entries.length - maxEvents)
+        }
+
+        while (this.entries.length > 0 && this.serialize().length > maxSize) {
+            this.entries.shift()
+        }
+
+        if (this.entries.length < before) {
+            logger.warn("Evicted events from outbox", {count: before - this.entries.length})
+        }
+    }
+
+    /**
+     * Read events and delivered ids saved by all tabs.
+     * Keeps current state if storage can't be read. If the last save failed,
+     * events missing in storage are kept, so they are not lost
+     * @private
+     */
+    private sync(): void {
+        try {
+            const saved = JSON.parse(this.store.get(this.key) || "[]")
+            const entries: OutboxEntry[] = Array.isArray(saved) ? saved.filter(entry => entry && entry.event) : []
+
+            if (this.unsaved) {
+                const ids = entries.map(entry => entry.event.insert_id)
+
+                this.entries = entries.concat(this.entries.filter(entry => !ids.includes(entry.event.insert_id)))
+            } else {
+                this.entries = entries
+            }
+        } catch (e) {
+            logger.error("Failed to restore events outbox", {error: e})
+        }
+
+        try {
+            const delivered = JSON.parse(this.store.get(this.deliveredKey) || "{}")
+
+            if (delivered && typeof delivered === "object") {
+                for (const id in delivered) {
+                    this.delivered[id] = Math.max(this.delivered[id] || 0, delivered[id])
+                }
+            }
+        } catch (e) {
+            logger.error("Failed to restore delivered events", {error: e})
+        }
+    }
+
+    private dedupeWindow(): number {
+        return (this.options.dedupeWindow || DefaultDedupeWindow) * 60 * 1000
+    }
+
+    private serialize(): string {
+        return JSON.stringify(this.entries)
+    }
+
+    private save(): void {
+        if (!canStringify) {
+            return
+        }
+
+        try {
+            if (this.entries.length === 0) {
+                this.store.delete(this.key)
+            } else {
+                this.store.set(this.key, this.serialize(), this.options.maxAge || DefaultMaxAge)
+            }
+
+            this.unsaved = false
+        } catch (e) {
+            // e.g. storage quota exceeded
+            logger.error("Failed to save events outbox", {error: e})
+            this.unsaved = true
+        }
+    }
+
+    private saveDelivered(): void {
+        if (!canStringify) {
+            return
+        }
+
+        try {
+            this.store.set(this.deliveredKey, JSON.stringify(this.delivered), this.options.dedupeWindow || DefaultDedupeWindow)
+        } catch (e) {
+            logger.error("Failed to save delivered events", {error: e})
+        }
+    }
+}
+
+export default EventOutbox
@@ -1,24 +1,38 @@
-import {deleteCookie, getCookie, setCookie} from '../cookies';
+import {getCookie} from '../cookies';
+import {CookieStorage, configuredStorage, consentStorages, outboxStorage, storage} from './storage';
+import {consent} from './consent';
+import EventOutbox from './events/outbox';
+import EventDispatcher from './events/dispatcher';
 import {config} from './config/config';
 import api from "./api";
-import u, {canStringify, log, logError, generateSHA256} from "../utils";
+import u, {generateSHA256} from "../utils";
+import {logger} from "./logger";
 import {
     VariableDataAttribute,
     DeepLinkURL,
     EventsKey,
     SelectedProductDuration,
+    UserRefreshDelay,
+    BootstrapScriptID,
     StartAppVersionKey,
     UserCookieDuration,
     UserIdKey,
-    SelectedBundleIndex
+    CustomerIdKey,
+    SelectedBundleIndex,
+    FBExternalIdSentKey,
+    SuperPropertiesKey,
+    ConsentKey,
+    SessionKey,
+    UserPropertiesKey
 } from './config/constants';
 import {
     Apphud, AttributionData,
     Config,
+    Bootstrap,
+    Consent,
+    MockBackend,
     CustomerData,
-    Error,
     EventData,
-    Events,
     ApphudFunc,
     ApphudHash,
     LifecycleEventCallback,
@@ -31,11 +45,31 @@ import {
     Product,
     User,
     PaymentProviderKind,
-    ProductBundle
+    ProductBundle,
+    ResetOptions,
+    UserProperty,
+    UserPropertyValue
 } from '../types'
 
 import UserAgent from 'ua-parser-js'
 import FormBuilder from "./paymentForms/formBuilder";
+import {ApphudError, ConfigError, EventDeliveryError, PaymentProviderError, PlacementNotFoundError} from "./errors";
+import PageViewTracker from "./autoTrack/pageViews";
+import ClickTracker from "./autoTrack/clicks";
+import PlacementsCache from "./placementsCache";
+import {mockBackend} from "./api/mockBackend";
+import SessionManager, {Session} from "./session";
+import UserPropertiesQueue from "./userProperties";
+
+interface DeliveryCallbacks {
+    resolve: () => void
+    reject: (error: EventDeliveryError) => void
+}
+
+interface QueuedCall {
+    run: ApphudFunc
+    cancel?: (error: ApphudError) => void
+}
 
 /**
  * The main interface for the Apphud SDK. This should be initialized
@@ -52,29 +86,52 @@ export default class ApphudSDK implements Apphud {
     private _currentPaywall: Paywall | undefined = undefined
     private _currentBundle: ProductBundle | undefined = undefined
     private userID: string | undefined = undefined
+    private deviceID: string | undefined = undefined
     private hashedUserID: string | undefined = undefined
     private isReady: boolean = false
-    private queue: ApphudFunc[] = []
+    private queue: QueuedCall[] = []
+    private isUserResetPending: boolean = false
     private events: LifecycleEvents = {}
-    private eventQueue: EventData[] = []
+    private dispatcher: EventDispatcher | undefined = undefined
+    private deferredEvents: { event: EventData, refreshPlacements: boolean, waiter?: DeliveryCallbacks }[] = []
     private isInitialized: boolean = false;
     private isPaywallShown: boolean = false;
+    private isListeningForConnection: boolean = false;
+    private pageViewTracker: PageViewTracker | undefined = undefined;
+    private clickTracker: ClickTracker | undefined = undefined;
+    private formBuilders: FormBuilder[] = [];
+    private placementsCache: PlacementsCache = new PlacementsCache();
+    private userRequestSequence: number = 0;
+    private appliedUserSequence: number = 0;
+    private resetGeneration: number = 0;
+    private userRefresh: Promise<User | null> | undefined = undefined;
+    private queuedUserRefresh: Promise<User | null> | undefined = undefined;
+    private refreshTimer: ReturnType<typeof setTimeout> | undefined = undefined;
+    private pendingRefreshPlacements: boolean = false;
+    private userProperties: UserPropertiesQueue = new UserPropertiesQueue(
+        (operations: UserProperty[]): Promise<boolean> => this.sendUserProperties(operations)
+    );
+    private session: SessionManager = new SessionManager(
+        (session: Session): void => this.trackSessionEvent("session_start", session, session.started_at),
+        (session: Session): void => this.trackSessionEvent("session_end", session, session.last_activity)
+    );
     // private params = new URLSearchParams(window.location.search);
 
     constructor() {}
 
     private checkInitialization(): void {
         if (!this.isInitialized) {
-            logError("Apphud SDK not initialized");
+            logger.error("Apphud SDK not initialized");
         }
     }
 
     /**
      * Initialized SDK
      * @param options
+     * @throws ConfigError if API key is not provided
      */
     public async init(options: Config): Promise<void> {
-        log('init', options)
+        logger.info('init', {options})
 
         const placeholderKeys = [
             "your_api_key",
@@ -82,9 +139,8 @@ export default class ApphudSDK implements Apphud {
             "YOUR-APPHUD-FLOW-KEY"
         ];
 
-        if (placeholderKeys.includes(options.apiKey)) {
-            logError("You did not provide API Key for Web SDK. Check script tags inside body tag. Learn more: https://docs.apphud.com/docs/flow-builder");
-            return;
+        if (!options.mock && (!options.apiKey || placeholderKeys.includes(options.apiKey))) {
+            throw this.reportError(new ConfigError("You did not provide API Key for Web SDK. Check script tags inside body tag. Learn more: https://docs.apphud.com/docs/flow-builder"));
         }
 
         for (const key in options) {
@@ -94,24 +150,342 @@ export default class ApphudSDK implements Apphud {
         }
         config.headers = api.baseHeaders()
 
-        // push events from queue
-        try {
-            this.eventQueue = JSON.parse(getCookie(EventsKey) || "[]");
+        this.migrateCookies()
+        this.restoreConsent()
 
-            for (let i = 0; i < this.eventQueue.length; i++) {
-                this.trackEvent(this.eventQueue[i])
-            }
-        } catch (e: any) {
-            logError(e as Error);
-        }
+        this.restoreOutbox()
+        this.userProperties.load()
 
         this.isInitialized = true;
 
+        this.session.touch()
+
+        this.startAutoTrack()
+        this.listenForConnection()
+
+        const bootstrap = options.bootstrap || this.readBootstrapScript()
+
+        if (bootstrap && this.bootstrap(bootstrap)) {
+            u.documentReady(async (): Promise<void> => {
+                this.operateVariables()
+                this.emit("ready", this)
+                await this.revalidateUser()
+                this.operateAttribution()
+            });
+            return
+        }
+
         u.documentReady(async (): Promise<void> => {
+            this.renderCachedPlacements()
             await this.initializeApp(true, true)
         });
     };
 
+    /**
+     * Read bootstrap data rendered by server into `<script type="application/json" id="apphud-bootstrap">`
+     * @private
+     */
+    private readBootstrapScript(): Bootstrap | undefined {
+        const element = document.getElementById(BootstrapScriptID)
+
+        if (!element || !element.textContent) {
+            return undefined
+        }
+
+        try {
+            return JSON.parse(element.textContent) as Bootstrap
+        } catch (e) {
+            this.reportError(new ConfigError("Failed to parse bootstrap data", e))
+            return undefined
+        }
+    }
+
+    /**
+     * Fill user, placements and current selection with data prepared on server and become ready
+     * without waiting for API. The `ready` event is still emitted when document is ready,
+     * so listeners added right after `init` receive it
+     * @param bootstrap - bootstrap data
+     * @returns whether SDK was bootstrapped
+     * @private
+     */
+    private bootstrap(bootstrap: Bootstrap): boolean {
+        if (!bootstrap.user || !bootstrap.user.id) {
+            this.reportError(new ConfigError("Bootstrap data must contain user"));
+            return false
+        }
+
+        const userID = this.getUserID()
+
+        // server may not see the ID saved on this device, e.g. in localStorage: data of another user must not be used
+        if (userID && bootstrap.user.user_id !== userID) {
+            logger.warn("Bootstrap user does not match this device. Ignore bootstrap data", {userID, bootstrapUserID: bootstrap.user.user_id})
+            return false
+        }
+
+        logger.debug("Bootstrap", {bootstrap})
+
+        // first visit: keep ID of the user created by server, so requests of this page refer to it
+        if (!this.getDeviceID() && bootstrap.user.user_id) {
+            storage().set(UserIdKey, bootstrap.user.user_id, UserCookieDuration);
+        }
+
+        if (bootstrap.placementID) {
+            storage().set(SelectedBundleIndex, `${bootstrap.placementID},${bootstrap.bundleIndex || 0}`, SelectedProductDuration);
+        }
+
+        this.user = bootstrap.user
+        this.isReady = true
+
+        this.setPlacementsAndProducts()
+        this.setPaymentProvider()
+        this.setReady(false)
+
+        return true
+    }
+
+    /**
+     * Refresh bootstrapped user in background. SDK stays ready meanwhile
+     * @private
+     */
+    private async revalidateUser(): Promise<void> {
+        try {
+            const user = await this.createUser(null, true);
+
+            if (user) {
+                this.user = user;
+                this.setPlacementsAndProducts();
+                this.setPaymentProvider();
+                this.operateVariables();
+            }
+        } catch (e) {
+            this.reportError(e, "Failed to refresh user");
+        }
+    }
+
+    /**
+     * Render variables with placements cached on previous visit, while user is being loaded
+     * @private
+     */
+    private renderCachedPlacements(): void {
+        const placements = this.placementsCache.get(this.getUserID())
+
+        if (!placements) {
+            return
+        }
+
+        logger.debug("Render cached placements", {placements})
+
+        this.placements = placements
+        this.replaceVariables(false)
+    }
+
+    /**
+     * Restore undelivered events and send them again
+     * @private
+     */
+    private restoreOutbox(): void {
+        const outbox = new EventOutbox(outboxStorage(), EventsKey, config.outbox)
+        outbox.load()
+
+        // events queue was kept in short-living cookie before
+        if (outboxStorage() !== storage()) {
+            try {
+                const legacyQueue: EventData[] = JSON.parse(storage().get(EventsKey) || "[]")
+
+                legacyQueue.forEach(event => outbox.add(event))
+                storage().delete(EventsKey)
+            } catch (e: any) {
+                logger.error("Failed to restore events queue", {error: e});
+            }
+        }
+
+        this.dispatcher = new EventDispatcher(
+            outbox,
+            (refreshPlacements: boolean): void => {
+                this.scheduleRefresh(refreshPlacements)
+            },
+            (error: ApphudError): void => {
+                this.reportError(error)
+            }
+        )
+
+        this.ready((): void => this.dispatcher?.start())
+    }
+
+    /**
+     * Emit online and offline events when network connection changes.
+     * Requests and events delivery are paused while offline
+     * @private
+     */
+    private listenForConnection(): void {
+        if (this.isListeningForConnection) {
+            return
+        }
+
+        this.isListeningForConnection = true
+
+        window.addEventListener("online", () => this.emit("online", {}))
+        window.addEventListener("offline", () => this.emit("offline", {}))
+
+        if (!u.isOnline()) {
+            u.documentReady(() => this.emit("offline", {}))
+        }
+    }
+
+    /**
+     * Start automatic tracking enabled in config
+     * @private
+     */
+    private startAutoTrack(): void {
+        if (config.autoTrack?.pageViews && !this.pageViewTracker) {
+            this.pageViewTracker = new PageViewTracker((referrer: string): void => {
+                this.track("page_view", { page_url: this.currentPage(), referrer: referrer }, {});
+            });
+            this.pageViewTracker.start();
+        }
+
+        if (config.autoTrack?.clicks !== false && !this.clickTracker) {
+            this.clickTracker = new ClickTracker((name: string, properties: ApphudHash): void => {
+                this.track(name, properties, {});
+            });
+            this.clickTracker.start();
+        }
+    }
+
+    /**
+     * Restore consent given on previous pages
+     * @private
+     */
+    private restoreConsent(): void {
+        try {
+            consent.update(JSON.parse(storage().get(ConsentKey) || "{}"));
+        } catch (e: any) {
+            logger.error("Failed to restore consent", {error: e});
+        }
+    }
+
+    /**
+     * Update user consent. Events tracked before analytics consent are sent once it is granted
+     * and dropped if it is denied. Attribution is sent once marketing consent is granted
+     * @param choices - user choices by category, e.g. `{ analytics: true, marketing: false }`
+     */
+    public setConsent(choices: Consent): void {
+        this.checkInitialization();
+
+        const marketingGranted = consent.isGranted("marketing");
+
+        consent.update(choices);
+        storage().set(ConsentKey, JSON.stringify(consent.get()), UserCookieDuration);
+
+        logger.info("Consent", {consent: consent.get()});
+
+        consentStorages().forEach(consentStorage => {
+            if (consent.isGranted("analytics")) {
+                consentStorage.persist();
+            } else {
+                consentStorage.withdraw([
+                    UserIdKey,
+                    CustomerIdKey,
+                    StartAppVersionKey,
+                    SuperPropertiesKey,
+                    FBExternalIdSentKey,
+                    SessionKey,
+                    UserPropertiesKey,
+                    EventsKey,
+                    `${EventsKey}_delivered`,
+                    this.placementsCache.key()
+                ]);
+            }
+        });
+
+        this.releaseDeferredEvents();
+
+        if (!marketingGranted && consent.isGranted("marketing")) {
+            this.ready((): void => {
+                this.operateAttribution();
+            });
+        }
+
+        this.emit("consent_changed", consent.get());
+    }
+
+    /**
+     * Get user consent by category
+     */
+    public getConsent(): Consent {
+        this.checkInitialization();
+
+        return consent.get();
+    }
+
+    /**
+     * Send or drop events tracked while analytics consent was pending
+     * @private
+     */
+    private releaseDeferredEvents(): void {
+        if (consent.state("analytics") === "pending") {
+            return;
+        }
+
+        const deferred = this.deferredEvents;
+        this.deferredEvents = [];
+
+        deferred.forEach(item => this.enqueueEvent(item.event, item.refreshPlacements, item.waiter));
+    }
+
+    /**
+     * Queue event for delivery if analytics consent allows it
+     * @param event - event data
+     * @param refreshPlacements - whether to refresh placements after delivery
+     * @param waiter - callbacks of `trackAsync`
+     * @private
+     */
+    private enqueueEvent(event: EventData, refreshPlacements: boolean = false, waiter?: DeliveryCallbacks): void {
+        switch (consent.state("analytics")) {
+            case "pending":
+                logger.debug("Defer event until analytics consent", {eventName: event.name});
+                this.deferredEvents.push({event: event, refreshPlacements: refreshPlacements, waiter: waiter});
+                return;
+            case "denied":
+                logger.info("Drop event without analytics consent", {eventName: event.name});
+                waiter?.reject(new EventDeliveryError("Analytics consent denied", event.insert_id!, event.name));
+                return;
+        }
+
+        if (!this.dispatcher) {
+            waiter?.reject(new EventDeliveryError("Apphud SDK not initialized", event.insert_id!, event.name));
+            return;
+        }
+
+        if (waiter) {
+            this.dispatcher.enqueueAndWait(event, refreshPlacements).then(waiter.resolve, waiter.reject);
+        } else {
+            this.dispatcher.enqueue(event, refreshPlacements);
+        }
+    }
+
+    /**
+     * Move host-only cookies to the shared cookie domain if it is configured
+     * @private
+     */
+    private migrateCookies(): void {
+        const currentStorage = configuredStorage()
+
+        if (!(currentStorage instanceof CookieStorage) || !config.cookie?.domain) {
+            return
+        }
+
+        currentStorage.migrateHostOnlyCookies({
+            [UserIdKey]: UserCookieDuration,
+            [CustomerIdKey]: UserCookieDuration,
+            [StartAppVersionKey]: UserCookieDuration,
+            [FBExternalIdSentKey]: UserCookieDuration,
+            [SuperPropertiesKey]: UserCookieDuration,
+            [SelectedBundleIndex]: SelectedProductDuration,
+            [DeepLinkURL]: SelectedProductDuration,
+        })
+    }
+
     /**
      * Track event
      * @param eventName - event name
@@ -133,35 +507,178 @@ export default class ApphudSDK implements Apphud {
         }
     }
 
+    /**
+     * Log error and emit it with `error` event
+     * @param error - error to report
+     * @param message - description used if error is not ApphudError
+     * @returns reported error, so it can be thrown from promise APIs
+     * @private
+     */
+    private reportError(error: unknown, message: string = "Unexpected error"): ApphudError {
+        const apphudError = error instanceof ApphudError ? error : new ApphudError(message, error);
+
+        logger.error(apphudError.message, {error: apphudError});
+        this.emit("error", apphudError);
+
+        return apphudError;
+    }
+
+    /**
+     * Get mock backend with recorded requests, or undefined if mock mode is off
+     */
+    public getMockBackend(): MockBackend | undefined {
+        return mockBackend();
+    }
+
     /**
      * Get saved deeplink after subscription created
      */
     public getDeepLink(): string | null {
         this.checkInitialization();
 
-        return getCookie(DeepLinkURL)
+        return storage().get(DeepLinkURL)
     }
 
     /**
-     * Get current User ID from cookies
+     * Get current User ID from storage. It is the customer ID passed to `identify`,
+     * or anonymous device ID if user is not identified
      */
     public getUserID(): string | undefined {
         this.checkInitialization();
 
-        const uid = getCookie(UserIdKey);
+        const uid = storage().get(CustomerIdKey) || storage().get(UserIdKey);
 
         if (uid)
             return uid
     }
 
     /**
-     * Reset everything. Remove User ID from cookies and flush events queue
+     * Get anonymous device ID from storage
      */
-    public reset(): boolean {
+    public getDeviceID(): string | undefined {
         this.checkInitialization();
-        
-        deleteCookie(UserIdKey);
-        deleteCookie(EventsKey);
+
+        const deviceID = storage().get(UserIdKey);
+
+        if (deviceID)
+            return deviceID
+    }
+
+    /**
+     * Identify current user with your customer ID, e.g. after sign in.
+     * Anonymous device ID is kept, so events and attribution collected before are merged into the customer
+     * @param customerID - your customer ID
+     * @throws ApiError if user was not updated
+     */
+    public async identify(customerID: string): Promise<void> {
+        this.checkInitialization();
+
+        if (!customerID) {
+            throw this.reportError(new ApphudError("Identify: customer ID is required"));
+        }
+
+        logger.info("Identify", {customerID});
+
+        storage().set(CustomerIdKey, customerID, UserCookieDuration);
+
+        const user = await this.createUser(null, true)
+            .catch(e => { throw this.reportError(e, "Identify failed") })
+
+        if (user)
+            this.user = user
+    }
+
+    /**
+     * Link anonymous device ID to customer ID, so events and attribution of that device
+     * are merged into the customer. Current user identity is not changed
+     * @param customerID - your customer ID
+     * @param anonymousID - anonymous device ID. Default: current device ID
+     * @throws ApiError if alias was not saved
+     */
+    public async alias(customerID: string, anonymousID?: string): Promise<void> {
+        this.checkInitialization();
+
+        const deviceID = anonymousID || this.getDeviceID();
+
+        if (!customerID || !deviceID) {
+            throw this.reportError(new ApphudError("Alias: customer ID and device ID are required"));
+        }
+
+        logger.info("Alias", {deviceID, customerID});
+
+        await this.createUser({user_id: customerID, device_id: deviceID}, true)
+            .catch(e => { throw this.reportError(e, "Alias failed") });
+    }
+
+    /**
+     * Reset everything. Remove user, selected product, deep link and registered properties from storage,
+     * flush events queue, destroy payment forms and clear in-memory state.
+     * New anonymous user is created right away with `newUser` option, otherwise when SDK is used again or on the next page load.
+     * Calls waiting for the previous user are dropped: `trackAsync` rejects with `EventDeliveryError`
+     * @param options - reset options
+     */
+    public reset(options: ResetOptions = {}): boolean {
+        this.checkInitialization();
+
+        logger.info("Reset", {options});
+
+        this.formBuilders.forEach(builder => builder.destroy());
+        this.formBuilders = [];
+
+        [
+            UserIdKey,
+            CustomerIdKey,
+            StartAppVersionKey,
+            SelectedBundleIndex,
+            DeepLinkURL,
+            FBExternalIdSentKey,
+            SuperPropertiesKey,
+            ConsentKey
+        ].forEach(key => storage().delete(key));
+
+        consent.clear();
+        this.session.clear();
+        this.dispatcher?.clear();
+        this.userProperties.clear();
+        this.placementsCache.clear();
+
+        this.user = undefined;
+        this.placements = [];
+        this.currentPaymentProviders.clear();
+        this._currentProducts.clear();
+        this._currentPlacement = undefined;
+        this._currentPaywall = undefined;
+        this._currentBundle = undefined;
+        this.userID = undefined;
+        this.deviceID = undefined;
+        this.hashedUserID = undefined;
+        const dropped = this.queue;
+        this.queue = [];
+        dropped.forEach(call => call.cancel?.(new ApphudError("Dropped by reset")));
+        // delivery may not have started yet if reset is called before SDK was ready
+        this.ready((): void => this.dispatcher?.start());
+        this.deferredEvents.forEach(item => item.waiter?.reject(
+            new EventDeliveryError("Event was dropped by reset", item.event.insert_id!, item.event.name)
+        ));
+        this.deferredEvents = [];
+        this.isReady = false;
+        this.isUserResetPending = !options.newUser;
+        this.isPaywallShown = false;
+
+        // responses to requests of previous user must not be applied
+        clearTimeout(this.refreshTimer);
+        this.refreshTimer = undefined;
+        this.pendingRefreshPlacements = false;
+        this.userRefresh = undefined;
+        this.queuedUserRefresh = undefined;
+        this.appliedUserSequence = this.userRequestSequence;
+        this.resetGeneration++;
+
+        this.emit("reset", { newUser: !!options.newUser });
+
+        if (options.newUser) {
+            this.initializeApp(true, true);
+        }
 
         return true;
     }
@@ -181,41 +698,255 @@ export default class ApphudSDK implements Apphud {
     ): boolean {
         this.checkInitialization();
 
-        // generate unique id
+        const event = this.buildEvent(name, properties, userProperties);
+
+        this.ready((): void => {
+            this.stampEvent(event);
+
+            this.enqueueEvent(event, refreshPlacements);
+        });
+
+        return true;
+    };
+
+    /**
+     * Track event and wait until it is accepted by Apphud
+     * @param name - event name
+     * @param properties - event properties
+     * @param userProperties - user properties
+     * @param refreshPlacements - whether to refresh placements after tracking (default: false)
+     * @throws EventDeliveryError if event was given up and removed from the queue
+     */
+    public trackAsync(
+        name: string,
+        properties: ApphudHash,
+        userProperties: ApphudHash,
+        refreshPlacements: boolean = false
+    ): Promise<void> {
+        this.checkInitialization();
+
+        const event = this.buildEvent(name, properties, userProperties);
+
+        return new Promise((resolve, reject) => {
+            this.ready((): void => {
+                this.stampEvent(event);
+
+                this.enqueueEvent(event, refreshPlacements, {resolve: resolve, reject: reject});
+            }, (error: ApphudError): void => {
+                reject(new EventDeliveryError("Event was dropped by reset", event.insert_id!, event.name, error));
+            });
+        });
+    }
+
+    /**
+     * Register properties sent with every event. Properties passed to `track` take precedence
+     * @param properties - event properties
+     */
+    public register(properties: ApphudHash): void {
+        this.checkInitialization();
+
+        this.saveSuperProperties({...this.superProperties(), ...properties});
+    }
+
+    /**
+     * Register properties sent with every event, keeping values that are already registered
+     * @param properties - event properties
+     */
+    public registerOnce(properties: ApphudHash): void {
+        this.checkInitialization();
+
+        this.saveSuperProperties({...properties, ...this.superProperties()});
+    }
+
+    /**
+     * Remove registered property
+     * @param key - property name
+     */
+    public unregister(key: string): void {
+        this.checkInitialization();
+
+        const properties = this.superProperties();
+
+        delete properties[key];
+
+        this.saveSuperProperties(properties);
+    }
+
+    /**
+     * Properties registered with `register` and `registerOnce`
+     * @private
+     */
+    private superProperties(): ApphudHash {
+        try {
+            return JSON.parse(storage().get(SuperPropertiesKey) || "{}");
+        } catch (e: any) {
+            logger.error("Failed to read registered properties", {error: e});
+            return {};
+        }
+    }
+
+    private saveSuperProperties(properties: ApphudHash): void {
+        if (Object.keys(properties).length === 0) {
+            storage().delete(SuperPropertiesKey);
+        } else {
+            storage().set(SuperPropertiesKey, JSON.stringify(properties), UserCookieDuration);
+        }
+    }
+
+    /**
+     * Create event with unique insert id, current session and registered properties
+     * @param name - event name
+     * @param properties - event properties
+     * @param userProperties - user properties
+     * @private
+     */
+    private buildEvent(name: string, properties: ApphudHash, userProperties: ApphudHash, sessionID?: string): EventData {
         const event: EventData = {
             name: name,
-            properties: properties || {},
+            properties: {...this.superProperties(), ...(properties || {})},
             user_properties: userProperties || {},
             timestamp: u.timestamp(),
-            insert_id: u.generateId()
+            insert_id: u.generateId(),
+            session_id: sessionID || this.session.touch()
         };
 
-        log('event', event);
+        logger.debug('event', {event});
 
-        this.ready((): void => {
-            event.user_id = this.getUserID();
-            event.device_id = this.getUserID();
+        return event;
+    }
 
-            this.eventQueue.push(event);
-            this.saveEventQueue();
+    /**
+     * Track session_start or session_end event
+     * @param name - event name
+     * @param session - started or ended session
+     * @param time - event time in milliseconds
+     * @private
+     */
+    private trackSessionEvent(name: string, session: Session, time: number): void {
+        const properties: ApphudHash = {};
 
-            // wait in case navigating to reduce duplicate events
-            setTimeout((): void => {
-                this.trackEvent(event, refreshPlacements);
-            }, 1000);
+        if (name === "session_end") {
+            properties.duration = Math.round((session.last_activity - session.started_at) / 1000);
+        }
+
+        const event = this.buildEvent(name, properties, {}, session.id);
+        event.timestamp = time / 1000.0;
+
+        this.ready((): void => {
+            this.stampEvent(event);
+
+            this.enqueueEvent(event);
         });
+    }
 
-        return true;
-    };
+    /**
+     * Add current user to event
+     * @param event - event data
+     * @private
+     */
+    private stampEvent(event: EventData): void {
+        event.user_id = this.getUserID();
+        event.device_id = this.getDeviceID();
+    }
+
+    /**
+     * Set user property
+     * @param name - property name
+     * @param value - property value
+     */
+    public setUserProperty(name: string, value: UserPropertyValue): void {
+        this.checkInitialization();
+
+        this.userProperties.add({name: name, value: value});
+    }
+
+    /**
+     * Set user property only if it has no value yet
+     * @param name - property name
+     * @param value - property value
+     */
+    public setUserPropertyOnce(name: string, value: UserPropertyValue): void {
+        this.checkInitialization();
+
+        this.userProperties.add({name: name, value: value, set_once: true});
+    }
+
+    /**
+     * Increment numeric user property
+     * @param name - property name
+     * @param by - value to add (default: 1)
+     */
+    public incrementUserProperty(name: string, by: number = 1): void {
+        this.checkInitialization();
+
+        if (typeof by !== "number" || isNaN(by)) {
+            logger.error(`Increment of user property "${name}" must be a number`);
+            return;
+        }
+
+        this.userProperties.add({name: name, value: by, increment: true});
+    }
+
+    /**
+     * Remove user property
+     * @param name - property name
+     */
+    public unsetUserProperty(name: string): void {
+        this.checkInitialization();
+
+        this.userProperties.add({name: name, value: null});
+    }
+
+    /**
+     * Append value to the list stored in user property
+     * @param name - property name
+     * @param value - value to append
+     */
+    public appendUserProperty(name: string, value: UserPropertyValue): void {
+        this.checkInitialization();
+
+        this.userProperties.add({name: name, value: value, append: true});
+    }
+
+    /**
+     * Send user property operations with customer data and refresh placements, as they may depend on properties
+     * @param operations - user property operations
+     * @private
+     */
+    private sendUserProperties(operations: UserProperty[]): Promise<boolean> {
+        return new Promise((resolve) => {
+            this.ready(async (): Promise<void> => {
+                try {
+                    const user = await this.createUser({properties: operations}, true);
+
+                    if (user) {
+                        this.user = user;
+                        this.setPlacementsAndProducts();
+                        this.operateVariables();
+                    }
+
+                    resolve(true);
+                } catch (e) {
+                    this.reportError(e, "Failed to send user properties");
+                    resolve(false);
+                }
+            }, (): void => {
+                // operations of previous user must not be sent for the new one
+                resolve(true);
+            });
+        });
+    }
 
     /**
      * Set email to current user
      * @param email - user email
+     * @throws ApiError if user was not updated
      */
     public async setEmail(email: string): Promise<void> {
         this.checkInitialization();
 
         const user = await this.createUser({email: email}, true)
+            .catch(e => { throw this.reportError(e, "Failed to set email") })
 
         if (user)
             this.user = user
@@ -223,26 +954,111 @@ export default class ApphudSDK implements Apphud {
 
     /**
      * Start SDK. Create user, set placements, paywalls and products to current state. Trigger ready. Operate variables and prices.
+     * If user fails to load after all retries, SDK still becomes ready with cached placements, so queued calls are not blocked.
+     * Start interrupted by reset is abandoned
      */
     private async initializeApp(initial: boolean = true, refreshPlacements: boolean = false): Promise<void> {
+        const generation = this.resetGeneration
+
         if (refreshPlacements) {
-            const user = await this.createUser(null, false);
+            let user: User | null = null
+            let loaded = true
+
+            try {
+                user = await this.refreshUser();
+            } catch (e) {
+                if (generation !== this.resetGeneration)
+                    return
+
+                this.reportError(e, "Failed to load user");
+                loaded = false
+            }
+
+            if (generation !== this.resetGeneration)
+                return
 
             if (user)
                 this.user = user
 
-            this.setPlacementsAndProducts()
-            this.setPaymentProvider()
+            // keep placements rendered from cache instead of clearing them
+            if (loaded) {
+                this.setPlacementsAndProducts()
+                this.setPaymentProvider()
+            }
         }
 
         this.operateVariables()
-        this.operateAttribution()
+
+        // attribution data does not change after page load, it is sent again only when consent changes
+        if (initial)
+            this.operateAttribution()
 
         this.setReady(initial)
     }
 
     /**
-     * Show payment form with saved product to cookies
+     * Refresh app state after events were delivered. Refreshes requested in a burst
+     * are merged into one, placements are refreshed if any of them asked for it
+     * @param refreshPlacements - whether user and placements should be fetched again
+     * @private
+     */
+    private scheduleRefresh(refreshPlacements: boolean): void {
+        this.pendingRefreshPlacements = this.pendingRefreshPlacements || refreshPlacements;
+
+        clearTimeout(this.refreshTimer);
+
+        const generation = this.resetGeneration;
+
+        this.refreshTimer = setTimeout((): void => {
+            const refresh = this.pendingRefreshPlacements;
+
+            this.refreshTimer = undefined;
+            this.pendingRefreshPlacements = false;
+
+            // refresh of previous user must not make SDK ready after reset
+            if (generation !== this.resetGeneration) {
+                return;
+            }
+
+            this.initializeApp(false, refresh);
+        }, UserRefreshDelay);
+    }
+
+    /**
+     * Fetch current user. Only one request is in flight at a time: refresh requested meanwhile
+     * waits for it and is sent once afterwards, as the running request may miss the latest changes
+     * @private
+     */
+    private refreshUser(): Promise<User | null> {
+        if (this.userRefresh) {
+            if (!this.queuedUserRefresh) {
+                const next = (): Promise<User | null> => {
+                    this.queuedUserRefresh = undefined;
+
+                    return this.refreshUser();
+                };
+
+                this.queuedUserRefresh = this.userRefresh.then(next, next);
+            }
+
+            return this.queuedUserRefresh;
+        }
+
+        const request = this.createUser(null, false);
+        const done = (): void => {
+            if (this.userRefresh === request) {
+                this.userRefresh = undefined;
+            }
+        };
+
+        this.userRefresh = request;
+        request.then(done, done);
+
+        return request;
+    }
+
+    /**
+     * Show payment form with saved product to storage
      * @param options - form options (optional)
      * @param product - product id - optional
      */
@@ -256,10 +1072,10 @@ export default class ApphudSDK implements Apphud {
             let targetProvider: PaymentProvider | undefined;
             if (formOptions.paymentProvider) {
                 // If specific provider requested, use it
-                log("Looking for specified payment provider:", formOptions.paymentProvider);
+                logger.debug("Looking for specified payment provider", {paymentProvider: formOptions.paymentProvider});
                 targetProvider = this.currentPaymentProviders.get(formOptions.paymentProvider);
                 if (!targetProvider) {
-                    logError(`Requested payment provider ${formOptions.paymentProvider} not available`);
+                    this.reportError(new PaymentProviderError(`Requested payment provider ${formOptions.paymentProvider} not available`, formOptions.paymentProvider));
                     // Emit provider not found event
                     this.emit(`${formOptions.paymentProvider}_not_found` as LifecycleEventName, {
                         requestedProvider: formOptions.paymentProvider,
@@ -270,11 +1086,11 @@ export default class ApphudSDK implements Apphud {
             } else {
                 // If no provider specified, use first available
                 targetProvider = Array.from(this.currentPaymentProviders.values())[0];
-                log("Using first available payment provider:", targetProvider?.kind);
+                logger.debug("Using first available payment provider", {paymentProvider: targetProvider?.kind});
             }
 
             if (!targetProvider) {
-                logError("No payment provider available");
+                this.reportError(new PaymentProviderError("No payment provider available"));
                 return;
             }
 
@@ -282,37 +1098,38 @@ export default class ApphudSDK implements Apphud {
             const targetProduct = this.currentProductForProvider(targetProvider.kind);
 
             if (!targetProduct) {
-                logError("Payment form: product is required");
+                logger.error("Payment form: product is required");
                 return;
             }
 
             if (!this.currentPaywall()) {
-                logError("Payment form: paywall is required");
+                logger.error("Payment form: paywall is required");
                 return;
             }
 
             if (!this.currentPlacement()) {
-                logError("Payment form: placement is required");
+                logger.error("Payment form: placement is required");
                 return;
             }
 
-            log("Initializing payment form with payment provider:", targetProvider);
+            logger.debug("Initializing payment form with payment provider", {paymentProvider: targetProvider});
 
             const productId = product || targetProduct.base_plan_id;
 
             if (!productId) {
-                logError("Unable to initialize the payment form because the product is absent.");
+                logger.error("Unable to initialize the payment form because the product is absent.");
                 return;
             }
 
             if (!this.user) {
-                logError("Payment form: no user");
+                logger.error("Payment form: no user");
                 return;
             }
 
             const builder = new FormBuilder(targetProvider, this.user);
+            this.formBuilders.push(builder);
 
-            const formEvents: LifecycleEventName[] = ["payment_form_initialized", "payment_form_ready", "payment_failure", "payment_success"];
+            const formEvents: LifecycleEventName[] = ["payment_form_initialized", "payment_form_ready", "payment_failure", "payment_success", "error"];
 
             formEvents.forEach((formEvent) => {
                 builder.on(formEvent, (e) => {
@@ -323,13 +1140,17 @@ export default class ApphudSDK implements Apphud {
                     if (this._currentPaywall !== undefined && this._currentPlacement !== undefined) {
                         this.track("paywall_checkout_initiated", { paywall_id: this._currentPaywall.id, placement_id: this._currentPlacement.id }, {})
                     } else {
-                        logError('Unable to track the "paywall_checkout_initiated" event: either paywall_id or placement_id is empty.')
+                        logger.warn('Unable to track the "paywall_checkout_initiated" event: either paywall_id or placement_id is empty.')
                     }
                 }
             });
 
-            log("Show payment form for product:", productId);
-            await builder.show(productId, this.currentPaywall()!.id, this.currentPlacement()!.id, formOptions, this._currentBundle);
+            logger.debug("Show payment form for product", {productId});
+            try {
+                await builder.show(productId, this.currentPaywall()!.id, this.currentPlacement()!.id, formOptions, this._currentBundle);
+            } catch (e) {
+                this.reportError(e instanceof ApphudError ? e : new PaymentProviderError("Failed to show payment form", targetProvider.kind, e));
+            }
         });
     }
 
@@ -342,30 +1163,30 @@ export default class ApphudSDK implements Apphud {
     public selectPlacementProduct(placementID: string, bundleIndex: number, initializePaymentForms: boolean = false): void {
         this.checkInitialization();
 
-        log("Save placement and bundle", placementID, bundleIndex);
+        logger.debug("Save placement and bundle", {placementID, bundleIndex});
 
         const placement = this.findPlacementByID(placementID);
         if (!placement || placement.paywalls.length === 0) {
-            logError("No placement or paywall found for ID:", placementID);
+            this.reportError(new PlacementNotFoundError(`No placement or paywall found for ID: ${placementID}`, placementID));
             return;
         }
 
         const paywall = placement.paywalls[0];
         const selectedBundle = paywall.items_v2[bundleIndex];
         if (!selectedBundle) {
-            logError("No product bundle found at index:", bundleIndex);
+            logger.error("No product bundle found at index", {bundleIndex});
             return;
         }
 
         const success = this.updateProductsAndProviders(selectedBundle, this.user?.payment_providers || []);
         
         if (!success) {
-            logError("Failed to set up payment providers for selected bundle");
+            this.reportError(new PaymentProviderError("Failed to set up payment providers for selected bundle"));
             return;
         }
 
         this.setCurrentItems(placementID, bundleIndex);
-        setCookie(SelectedBundleIndex, `${placementID},${bundleIndex}`, SelectedProductDuration);
+        storage().set(SelectedBundleIndex, `${placementID},${bundleIndex}`, SelectedProductDuration);
         
         if (initializePaymentForms) {
             const formElements = {
@@ -380,10 +1201,10 @@ export default class ApphudSDK implements Apphud {
             });
             
             const availableProducts = this._currentProducts;
-            log("Available products for providers:", availableProducts);
+            logger.debug("Available products for providers", {availableProducts});
             
             availableProducts.forEach((product, provider) => {
-                log(`Initializing payment form for provider: ${provider}`);
+                logger.debug(`Initializing payment form for provider: ${provider}`);
                 this.paymentForm({ paymentProvider: provider });
             });
         }
@@ -424,7 +1245,7 @@ export default class ApphudSDK implements Apphud {
                     );
 
                     if (!hasPriceMacros) {
-                        logError(`Placement with identifier "${placementID}" was requested and found, but price macros are missing. Learn how to set up macros here: https://docs.apphud.com/docs/configure-web-placements#setting-up-product-macros`);
+                        logger.warn(`Placement with identifier "${placementID}" was requested and found, but price macros are missing. Learn how to set up macros here: https://docs.apphud.com/docs/configure-web-placements#setting-up-product-macros`);
                     }
                 }
                 
@@ -432,14 +1253,14 @@ export default class ApphudSDK implements Apphud {
                     const success = this.updateProductsAndProviders(bundle, this.user?.payment_providers || []);
                     
                     if (success) {
-                        log("Current placement", this._currentPlacement);
-                        log("Current paywall", this._currentPaywall);
-                        log("Current bundle", this._currentBundle);
-                        log("Current products", this._currentProducts);
-                        log("Current payment providers", this.currentPaymentProviders);
+                        logger.debug("Current placement", {placement: this._currentPlacement});
+                        logger.debug("Current paywall", {paywall: this._currentPaywall});
+                        logger.debug("Current bundle", {bundle: this._currentBundle});
+                        logger.debug("Current products", {products: this._currentProducts});
+                        logger.debug("Current payment providers", {paymentProviders: this.currentPaymentProviders});
                     }
                 } else {
-                    logError("Bundle contains no products");
+                    logger.error("Bundle contains no products");
                 }
             }
         }
@@ -469,12 +1290,12 @@ export default class ApphudSDK implements Apphud {
                 this._currentProducts.set(requiredStore, product);
                 this.currentPaymentProviders.set(requiredStore, compatibleProvider);
             } else {
-                logError(`No compatible payment provider found for store type: ${requiredStore}`);
+                logger.warn(`No compatible payment provider found for store type: ${requiredStore}`);
             }
         });
 
         if (this.currentPaymentProviders.size === 0) {
-            logError("No compatible payment providers found for any products in the bundle");
+            logger.error("No compatible payment providers found for any products in the bundle");
             return false;
         }
 
@@ -489,17 +1310,24 @@ export default class ApphudSDK implements Apphud {
     public setAttribution(queryParams: string, data: AttributionData): void {
         this.checkInitialization();
 
-        log("SetAttribution", queryParams, data);
+        logger.debug("SetAttribution", {queryParams, data});
 
         api.setAttribution(queryParams, data)
-            .then(r => log("Attribution set", r));
+            .then(r => logger.debug("Attribution set", {result: r}))
+            .catch(e => this.reportError(e, "Failed to set attribution"));
     }
 
     private async operateAttribution() {
-        log("Prepare Attribution")
+        if (!consent.isGranted("marketing")) {
+            logger.debug("Skip attribution without marketing consent")
+            return
+        }
+
+        logger.debug("Prepare Attribution")
+        const optedOut = config.respectPrivacySignals === true && u.hasPrivacySignal()
         const attribution: AttributionData = {}
         const queryParams = new URLSearchParams()
-        queryParams.append('device_id', this.getUserID()!)
+        queryParams.append('device_id', this.getDeviceID()!)
 
         this.ready(async (): Promise<void> => {
             const urlParams = this.getQueryParamsAsJson()
@@ -514,9 +1342,13 @@ export default class ApphudSDK implements Apphud {
             // prepare apphud attribution data
             const apphudData = this.prepareApphudAttributionData()
             
+            if (optedOut) {
+                logger.debug("Privacy signal detected. Skip URL parameters, gtag and Facebook external_id")
+            }
+
             // Add all other URL parameters to apphud_attribution_data
             const otherParams = Object.entries(urlParams)
-                .filter(([key]) => !attributionIds.includes(key))
+                .filter(([key]) => !optedOut && !attributionIds.includes(key))
                 .reduce((acc, [key, value]) => {
                     acc[`url_param_${key}`] = value;
                     return acc;
@@ -530,9 +1362,9 @@ export default class ApphudSDK implements Apphud {
             }
 
             // prepare gtag attribution
-            const gtagClientID = await this.retrieveGtagClientIDWithTimeout(5000);
+            const gtagClientID = optedOut ? null : await this.retrieveGtagClientIDWithTimeout(5000);
             if (gtagClientID) {
-                log("gtag client_id:", gtagClientID)
+                logger.debug("gtag client_id", {gtagClientID})
                 queryParams.append('firebase_id', gtagClientID)
             }
 
@@ -540,19 +1372,19 @@ export default class ApphudSDK implements Apphud {
             if (typeof(window.fbq) !== 'undefined') {
                 const fbp = getCookie('_fbp')
                 const fbc = getCookie('_fbc')
-                const fbExternalIdSent = getCookie('apphud_fb_external_id_sent')
+                const fbExternalIdSent = storage().get(FBExternalIdSentKey)
                 
                 if (fbp) queryParams.append('fbp', fbp)
                 if (fbc) queryParams.append('fbc', fbc)
 
-                if (this.hashedUserID && !fbExternalIdSent) {
-                    log('set external_id to fb: ', this.hashedUserID);
+                if (this.hashedUserID && !fbExternalIdSent && !optedOut) {
+                    logger.debug('set external_id to fb', {externalID: this.hashedUserID});
                     
                     window.fbq('trackCustom', 'ApphudInit', {
                         external_id: this.hashedUserID,
                     });
                     
-                    setCookie('apphud_fb_external_id_sent', 'true', UserCookieDuration);
+                    storage().set(FBExternalIdSentKey, 'true', UserCookieDuration);
                 }
             }
 
@@ -581,7 +1413,7 @@ export default class ApphudSDK implements Apphud {
             this.waitForGtag().then(() => {
                 const measurementId = this.getGtagMeasurementId();
                 if (!measurementId) {
-                    console.warn("No Google Measurement ID found.");
+                    logger.warn("No Google Measurement ID found.");
                     resolve(null);
                     return;
                 }
@@ -598,7 +1430,7 @@ export default class ApphudSDK implements Apphud {
                     resolve(null);
                 }
             }).catch(() => {
-                console.warn("gtag.js did not load. Skipping attribution.");
+                logger.warn("gtag.js did not load. Skipping attribution.");
                 resolve(null);
             });
         });
@@ -623,7 +1455,7 @@ export default class ApphudSDK implements Apphud {
                     resolve();
                 } else if (elapsed >= timeout) {
                     clearInterval(interval);
-                    console.warn("gtag.js did not load within 5 seconds.");
+                    logger.warn("gtag.js did not load within 5 seconds.");
                     reject(); // Reject if timeout occurs
                 }
             }, intervalTime);
@@ -711,13 +1543,21 @@ export default class ApphudSDK implements Apphud {
      */
     private setPlacementsAndProducts(): void {
         this.ready((): void => {
+            const previous = this.placements
+
             this.placements = this.user?.placements || []
+            this.placementsCache.set(this.getUserID(), this.placements)
 
-            log("Placements", this.placements)
+            logger.debug("Placements", {placements: this.placements})
             const saved = this.getSavedPlacementBundleIndex()
 
             if (saved.placementID)
                 this.setCurrentItems(saved.placementID, saved.bundleIndex)
+
+            // placements rendered from cache or previous response are outdated
+            if (previous.length > 0 && JSON.stringify(previous) !== JSON.stringify(this.placements)) {
+                this.emit("placements_updated", this.placements)
+            }
         })
     }
 
@@ -726,10 +1566,10 @@ export default class ApphudSDK implements Apphud {
      * @private
      */
     private setReady(initial: boolean = false): void {
-        log("set ready")
-        let callback;
-        while ((callback = this.queue.shift())) {
-            callback();
+        logger.debug("set ready")
+        let call;
+        while ((call = this.queue.shift())) {
+            call.run();
         }
         this.isReady = true;
 
@@ -739,77 +1579,33 @@ export default class ApphudSDK implements Apphud {
     }
 
     /**
-     * Save event queue
-     * @private
-     */
-    private saveEventQueue(): void {
-        if (canStringify) {
-            setCookie(EventsKey, JSON.stringify(this.eventQueue), 1);
-        }
-    }
-
-    /**
-     * Adds device_id, user_id to event
-     * @param event - event data
-     * @private
-     */
-    private eventData(event: EventData): Events {
-        const data: Events = {
-            events: [event],
-            device_id: event.device_id,
-            user_id: event.user_id,
-        }
-        delete event.device_id;
-        delete event.user_id;
-
-        return data;
-    }
-
-    /**
-     * Create event or add it to queue if not ready yet
-     * @param event - event data
-     * @param refreshPlacements - whether to refresh placements after tracking
-     * @private
-     */
-    private trackEvent(event: EventData, refreshPlacements: boolean = false): void {
-        this.ready(async (): Promise<void> => {
-            api.createEvent(this.eventData(event)).then(() => {
-                // remove from queue
-                for (let i = 0; i < this.eventQueue.length; i++) {
-                    if (this.eventQueue[i].id === event.id) {
-                        this.eventQueue.splice(i, 1)
-                        break
-                    }
-                }
-                this.saveEventQueue()
-                
-                this.initializeApp(false, refreshPlacements)
-            })
-        });
-    }
-
-    /**
-     * Create user
+     * Create user. Response is dropped if response to a later request was already received,
+     * so out of order responses never replace newer state
      * @param params - user data
      * @param ready - reset readiness
+     * @returns user, or null if response is outdated
      * @private
      */
     private async createUser(params: ApphudHash | null, ready: boolean): Promise<User | null> {
+        const sequence = ++this.userRequestSequence;
+
         this.isReady = ready;
 
-        this.userID = this.getUserID();
-        this.hashedUserID = await generateSHA256(this.userID);
+        this.deviceID = this.getDeviceID();
 
-        if (!this.userID) {
-            this.userID = u.generateId();
+        if (!this.deviceID) {
+            this.deviceID = u.generateId();
 
-            if (!getCookie(StartAppVersionKey)) {
-                setCookie(StartAppVersionKey, config.websiteVersion, UserCookieDuration); // 2 years
+            if (!storage().get(StartAppVersionKey)) {
+                storage().set(StartAppVersionKey, config.websiteVersion, UserCookieDuration); // 2 years
             }
 
-            setCookie(UserIdKey, this.userID, UserCookieDuration);
+            storage().set(UserIdKey, this.deviceID, UserCookieDuration);
         }
 
+        this.userID = this.getUserID();
+        this.hashedUserID = await generateSHA256(this.userID);
+
         let data = this.userParams({})
 
         // referrer
@@ -817,13 +1613,22 @@ export default class ApphudSDK implements Apphud {
             data.referrer = document.referrer;
         }
 
-        log("user", data);
+        logger.debug("user", {data});
 
         if (params) {
             data = Object.assign(data, params);
         }
 
-        return await api.createUser(data)
+        const user = await api.createUser(data);
+
+        if (sequence <= this.appliedUserSequence) {
+            logger.debug("Skip outdated user response", {sequence});
+            return null;
+        }
+
+        this.appliedUserSequence = sequence;
+
+        return user;
     }
 
     /**
@@ -843,13 +1648,13 @@ export default class ApphudSDK implements Apphud {
             currency_code: u.getCurrencyCode(),
             country_iso_code: u.getCountryCode(),
             country_code: u.getCountryCode(),
-            device_id: this.userID!,
+            device_id: this.deviceID!,
             device_type: userAgent.getDevice().model ?? "unknown",
             device_family: userAgent.getDevice().model ?? "unknown",
             platform: "web2web",
             os_version: userAgent.getOS().version || u.getOSVersion(),
             app_version: config.websiteVersion,
-            start_app_version: getCookie(StartAppVersionKey) || config.websiteVersion,
+            start_app_version: storage().get(StartAppVersionKey) || config.websiteVersion,
             need_paywalls: true,
             need_placements: true,
             page_url: this.currentPage(),
@@ -872,37 +1677,44 @@ export default class ApphudSDK implements Apphud {
     public operateVariables() {
         this.checkInitialization();
 
-        this.ready((): void => {
-            const vars: NodeListOf<Element> = document.querySelectorAll(`[${VariableDataAttribute}]`);
+        this.ready((): void => this.replaceVariables(true))
+    }
 
-            vars.forEach(elm => {
-                const varName = elm.getAttribute(VariableDataAttribute)
+    /**
+     * Replace variables on the page with values from current placements
+     * @param trackPaywallShown - whether to track `paywall_shown` when prices are rendered
+     * @private
+     */
+    private replaceVariables(trackPaywallShown: boolean): void {
+        const vars: NodeListOf<Element> = document.querySelectorAll(`[${VariableDataAttribute}]`);
 
-                if (varName) {
-                    const newVal = this.readVariableValueByKeyPath(varName)
+        vars.forEach(elm => {
+            const varName = elm.getAttribute(VariableDataAttribute)
 
-                    log("Replace variable", varName, newVal)
+            if (varName) {
+                const newVal = this.readVariableValueByKeyPath(varName)
 
-                    if (newVal) {
-                        if (varName.endsWith("price") && !this.isPaywallShown) {
-                            this.track("paywall_shown", { paywall_id: this._currentPaywall?.id, placement_id: this._currentPlacement?.id }, {});
-                            this.isPaywallShown = true;
-                        }
+                logger.debug("Replace variable", {varName, newVal})
 
-                        elm.innerHTML = newVal
+                if (newVal) {
+                    if (trackPaywallShown && varName.endsWith("price") && !this.isPaywallShown) {
+                        this.track("paywall_shown", { paywall_id: this._currentPaywall?.id, placement_id: this._currentPlacement?.id }, {});
+                        this.isPaywallShown = true;
                     }
+
+                    elm.innerHTML = newVal
                 }
-            })
+            }
         })
     }
 
     /**
-     * Get saved placement and bundle index from cookies
+     * Get saved placement and bundle index from storage
      * @returns Object containing placementID and bundleIndex from saved selection
      * @private
      */
     private getSavedPlacementBundleIndex(): { placementID: string | undefined, bundleIndex: number } {
-        const savedIndices = getCookie(SelectedBundleIndex)
+        const savedIndices = storage().get(SelectedBundleIndex)
 
         if (savedIndices !== null) {
             const arr = savedIndices.split(',').map(s => s.trim());
@@ -958,11 +1770,11 @@ export default class ApphudSDK implements Apphud {
         const placement = this.findPlacementByID(placementID!)
 
         if (!placement) {
-            log("placement not found with id: ", placementID)
+            logger.debug("placement not found with id", {placementID})
             return null
         }
 
-        log("Placement", placementID, bundleIndex)
+        logger.debug("Placement", {placementID, bundleIndex})
         const paywall = placement.paywalls[0]!
         const bundle = paywall!.items_v2[bundleIndex]
         
@@ -983,7 +1795,7 @@ export default class ApphudSDK implements Apphud {
         
         if (!placement) {
             const existingIdentifiers = this.placements.map(p => p.identifier);
-            console.warn(`Placement with identifier "${id}" was requested, but only these placements were found: [${existingIdentifiers.join(', ')}].`);
+            logger.warn(`Placement with identifier "${id}" was requested, but only these placements were found: [${existingIdentifiers.join(', ')}].`, {placementID: id, placements: existingIdentifiers});
         }
         
         return placement;
@@ -1069,16 +1881,24 @@ export default class ApphudSDK implements Apphud {
     }
 
     /**
-     * Run function or add to queue
+     * Run function or add to queue. After reset without new user, the first queued function creates it
      * @param callback - function
+     * @param cancel - called if function is dropped from queue by reset
      * @private
      */
-    private ready(callback: ApphudFunc): void {
+    private ready(callback: ApphudFunc, cancel?: (error: ApphudError) => void): void {
         if (this.isReady) {
             callback();
-        } else {
-            log('not ready push to queue', callback);
-            this.queue.push(callback);
+            return
+        }
+
+        logger.debug('not ready push to queue', {callback});
+        this.queue.push({run: callback, cancel: cancel});
+
+        if (this.isUserResetPending) {
+            this.isUserResetPending = false;
+            logger.info("Create new user after reset");
+            this.initializeApp(true, true);
         }
     }
 }
@@ -0,0 +1,76 @@
+import {LogContext, LoggerAdapter, LogLevel} from "../types";
+import {config} from "./config/config";
+
+const LogLevels: { [level in LogLevel | "silent"]: number } = {
+    debug: 0,
+    info: 1,
+    warn: 2,
+    error: 3,
+    silent: 4
+}
+
+/**
+ * Writes messages to browser console
+ */
+const consoleAdapter: LoggerAdapter = {
+    debug: (message, context) => write("log", message, context),
+    info: (message, context) => write("info", message, context),
+    warn: (message, context) => write("warn", message, context),
+    error: (message, context) => write("error", message, context)
+}
+
+const write = (method: "log" | "info" | "warn" | "error", message: string, context?: LogContext): void => {
+    if (context === undefined) {
+        window.console[method](message)
+    } else {
+        window.console[method](message, context)
+    }
+}
+
+/**
+ * Leveled SDK logger. Messages below `config.logger.level` are dropped,
+ * the rest are passed to `config.logger.adapter`
+ */
+class Logger {
+    debug(message: string, context?: LogContext): void {
+        this.log("debug", message, context)
+    }
+
+    info(message: string, context?: LogContext): void {
+        this.log("info", message, context)
+    }
+
+    warn(message: string, context?: LogContext): void {
+        this.log("warn", message, context)
+    }
+
+    error(message: string, context?: LogContext): void {
+        this.log("error", message, context)
+    }
+
+    /**
+     * Whether messages of given level are written
+     * @param level - log level
+     */
+    isEnabled(level: LogLevel): boolean {
+        const minimum = config.logger?.level ?? (config.debug ? "debug" : "warn")
+
+        return LogLevels[level] >= LogLevels[minimum]
+    }
+
+    private log(level: LogLevel, message: string, context?: LogContext): void {
+        if (!this.isEnabled(level)) {
+            return
+        }
+
+        const adapter = config.logger?.adapter || consoleAdapter
+
+        try {
+            adapter[level](message, context)
+        } catch {
+            // broken adapter must not break the SDK
+        }
+    }
+}
+
+export const logger = new Logger()
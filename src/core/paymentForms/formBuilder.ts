@@ -11,10 +11,12 @@ import {
 } from "../../types";
 import StripeForm from "./stripeForm";
 import PaddleForm from "./paddleForm";
-import {log} from "../../utils";
+import {logger} from "../logger";
+import {PaymentProviderError} from "../errors";
 
 class FormBuilder implements PaymentFormBuilder {
     private events: LifecycleEvents = {}
+    private form: PaymentForm | undefined = undefined
 
     constructor(private provider: PaymentProvider, private user: User) {}
 
@@ -47,7 +49,7 @@ class FormBuilder implements PaymentFormBuilder {
                 } : undefined;
                 
                 form = new StripeForm(this.user, this.provider.id, this.provider.identifier, this)
-                log("Start stripe form for account_id:", this.provider.identifier)
+                logger.debug("Start stripe form for account_id", {accountID: this.provider.identifier})
                 break
             case "paddle":
                 subscriptionOptions = introOffer ? {
@@ -55,12 +57,14 @@ class FormBuilder implements PaymentFormBuilder {
                 } : undefined;
                 
                 form = new PaddleForm(this.user, this.provider, this)
-                log("Start paddle form for account_id:", this.provider.identifier)
+                logger.debug("Start paddle form for account_id", {accountID: this.provider.identifier})
                 break
             default:
-                throw new Error("Unsupported type " + this.provider.kind)
+                throw new PaymentProviderError("Unsupported type " + this.provider.kind, this.provider.kind)
         }
 
+        this.form = form
+
         await form.show(
             productId, 
             paywallId, 
@@ -70,6 +74,15 @@ class FormBuilder implements PaymentFormBuilder {
         )
     }
 
+    /**
+     * Remove form from page and stop listening its events
+     */
+    destroy(): void {
+        this.form?.destroy()
+        this.form = undefined
+        this.events = {}
+    }
+
     /**
      * Track event
      * @param eventName - event name
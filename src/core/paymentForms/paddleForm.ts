@@ -1,11 +1,12 @@
-import {log, logError} from "../../utils";
+import {logger} from "../logger";
 import {initializePaddle, Paddle, CheckoutOpenOptions, PaddleEventData, DisplayMode, AvailablePaymentMethod, Variant} from '@paddle/paddle-js'
 import {PaymentForm, PaymentProviderFormOptions, User, PaymentProvider, Subscription, PaddleSubscriptionOptions} from "../../types";
 import FormBuilder from "./formBuilder";
 import {config} from "../config/config";
 import api from "../api";
-import {setCookie} from "../../cookies";
+import {storage} from "../storage";
 import {DeepLinkURL, SelectedProductDuration} from "../config/constants";
+import {PaymentProviderError} from "../errors";
 
 class PaddleForm implements PaymentForm {
     private paddle: Paddle | null | undefined = null
@@ -23,13 +24,13 @@ class PaddleForm implements PaymentForm {
                 environment,
                 token: this.provider.token || "",
                 eventCallback: (event: PaddleEventData) => {
-                    log("Paddle event received:", event.name)
+                    logger.debug("Paddle event received", {eventName: event.name})
                     this.handlePaddleEvent(event, this.currentOptions)
                 }
             })
-            log("Paddle initialized successfully")
+            logger.debug("Paddle initialized successfully")
         } catch (error) {
-            logError("Failed to initialize Paddle:", error)
+            logger.error("Failed to initialize Paddle", {error})
         }
     }
 
@@ -54,11 +55,12 @@ class PaddleForm implements PaymentForm {
         try {
             await this.createSubscription(productId, paywallId, placementId, subscriptionOptions)
         } catch (error) {
-            logError('Failed to create subscription', error)
+            logger.error('Failed to create subscription', {error})
+            this.formBuilder.emit("error", new PaymentProviderError("Failed to create subscription", "paddle", error))
             return
         }
 
-        log("Initializing Paddle payment form for product:", productId)
+        logger.debug("Initializing Paddle payment form for product", {productId})
         this.formBuilder.emit("payment_form_initialized", { 
             paymentProvider: "paddle", 
             event: { 
@@ -73,14 +75,15 @@ class PaddleForm implements PaymentForm {
 
         // Verify Paddle is available
         if (!this.paddle) {
-            logError("Paddle failed to initialize")
+            logger.error("Paddle failed to initialize")
+            this.formBuilder.emit("error", new PaymentProviderError("Paddle failed to initialize", "paddle"))
             return
         }
 
         const settings = options?.paddleSettings || {}
 
         if (!this.currentOptions?.id) {
-            logError("Paddle form id is required")
+            logger.error("Paddle form id is required")
             return
         }
 
@@ -126,7 +129,7 @@ class PaddleForm implements PaymentForm {
             }
             this.paddle.Checkout.open(checkoutConfig)
         } catch (error) {
-            logError("Failed to open Paddle checkout:", error)
+            logger.error("Failed to open Paddle checkout", {error})
             this.setButtonState("ready")
 
             if (settings.errorCallback) {
@@ -151,12 +154,12 @@ class PaddleForm implements PaymentForm {
     private async handlePaddleEvent(event: PaddleEventData, options: PaymentProviderFormOptions | null): Promise<void> {
         switch (event.name) {
             case "checkout.completed":
-                log("Payment completed successfully")
+                logger.debug("Payment completed successfully")
                 
                 const deepLink = this.subscription?.deep_link
 
                 if (deepLink) {
-                    setCookie(DeepLinkURL, deepLink, SelectedProductDuration)
+                    storage().set(DeepLinkURL, deepLink, SelectedProductDuration)
                 }
 
                 this.formBuilder.emit("payment_success", {
@@ -176,7 +179,7 @@ class PaddleForm implements PaymentForm {
                 break;
                 
             case "checkout.error":
-                logError("Payment failed:", event.data)
+                logger.error("Payment failed", {data: event.data})
                 this.formBuilder.emit("payment_failure", {
                     paymentProvider: "paddle",
                     event: { error: event.data }
@@ -190,7 +193,7 @@ class PaddleForm implements PaymentForm {
                 break;
                 
             case "checkout.loaded":
-                log("Checkout loaded successfully")
+                logger.debug("Checkout loaded successfully")
                 this.setButtonState("ready")
                 this.formBuilder.emit("payment_form_ready", { 
                     paymentProvider: "paddle", 
@@ -200,6 +203,20 @@ class PaddleForm implements PaymentForm {
         }
     }
 
+    /**
+     * Close Paddle checkout
+     */
+    public destroy(): void {
+        try {
+            this.paddle?.Checkout.close()
+        } catch (error) {
+            logger.error("Failed to close Paddle checkout", {error})
+        }
+
+        this.currentOptions = null
+        this.subscription = null
+    }
+
     /**
      * Set payment button state
      * @param state - Button state: "loading" | "ready" | "processing"
@@ -233,13 +250,13 @@ class PaddleForm implements PaymentForm {
             ...(subscriptionOptions?.discountId && { discount_id: subscriptionOptions.discountId })
         }
 
-        log('Creating subscription with payload:', payload);
+        logger.debug('Creating subscription with payload', {payload});
         this.subscription = await api.createSubscription(this.provider.id, payload)
 
         if (!this.subscription) {
-            logError(`Subscription was not created for price_id`, productId)
+            logger.error(`Subscription was not created for price_id`, {productId})
         } else {
-            log('Subscription created', this.subscription)
+            logger.info('Subscription created', {subscription: this.subscription})
         }
     }
 }
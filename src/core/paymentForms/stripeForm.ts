@@ -1,4 +1,5 @@
-import {documentReady, log, logError} from "../../utils"
+import {documentReady} from "../../utils"
+import {logger} from "../logger"
 import api from '../api'
 import {
     DeepLinkURL,
@@ -13,9 +14,10 @@ import {
     StripePaymentElement,
     StripePaymentElementChangeEvent
 } from "@stripe/stripe-js";
-import {setCookie} from "../../cookies";
+import {storage} from "../storage";
 import {config} from "../config/config";
 import FormBuilder from "./formBuilder";
+import {PaymentProviderError} from "../errors";
 
 const ELEMENT_IDS = {
     new: {
@@ -47,6 +49,8 @@ class StripeForm implements PaymentForm {
     private subscriptionOptions?: StripeSubscriptionOptions;
     private elementIDs: { [key: string]: string } = ELEMENT_IDS.old;
     private buttonStateSetter?: (state: "loading" | "ready" | "processing") => void | undefined;
+    private form: Element | null = null;
+    private submitHandler: ((event: Event) => Promise<void>) | null = null;
 
     constructor(private user: User, private providerId: string, private accountId: string, private formBuilder: FormBuilder) {
         documentReady(async () => {
@@ -120,7 +124,7 @@ class StripeForm implements PaymentForm {
         const submitButton = document.querySelector(`#${this.elementIDs.submit}`)
 
         if (!submitButton) {
-            logError(`Submit button is required. Add <button id="${this.elementIDs.submit}">Pay</button>`)
+            logger.error(`Submit button is required. Add <button id="${this.elementIDs.submit}">Pay</button>`)
             return
         }
 
@@ -133,7 +137,7 @@ class StripeForm implements PaymentForm {
 
         try {
             // Just create the customer and initialize the form
-            log("Create Stripe customer for user", this.user.id);
+            logger.debug("Create Stripe customer for user", {userID: this.user.id});
             const customer = await this.createCustomer();
             this.customer = { id: customer.id, client_secret: customer.client_secret };
 
@@ -144,8 +148,9 @@ class StripeForm implements PaymentForm {
             this.setupForm(options)
 
         } catch (error) {
-            logError("Failed to initialize Stripe form:", error)
+            logger.error("Failed to initialize Stripe form", {error})
             this.setButtonState("ready")
+            this.formBuilder.emit("error", new PaymentProviderError("Failed to initialize Stripe form", "stripe", error))
             
             const errorElement = document.querySelector(`#${this.elementIDs.error}`)
             if (errorElement) {
@@ -161,7 +166,7 @@ class StripeForm implements PaymentForm {
 
     private setButtonState(state: "loading" | "ready" | "processing"): void {
         if (!this.submit) {
-            logError("Submit button not found. Failed to set state:", state)
+            logger.warn("Submit button not found. Failed to set state", {state})
             return
         }
 
@@ -212,14 +217,14 @@ class StripeForm implements PaymentForm {
             ...(this.subscriptionOptions?.couponId && { discount_id: this.subscriptionOptions.couponId })
         };
 
-        log('Creating subscription with payload:', payload);
+        logger.debug('Creating subscription with payload', {payload});
         this.subscription = await api.createSubscription(this.providerId, payload);
 
         if (!this.subscription) {
             throw new Error('Subscription was not created');
         }
 
-        log('Subscription created', this.subscription);
+        logger.info('Subscription created', {subscription: this.subscription});
     }    
 
     private async createCustomer(): Promise<CustomerSetup> {
@@ -242,7 +247,7 @@ class StripeForm implements PaymentForm {
             throw new Error('Failed to create customer');
         }
     
-        log('Customer created', customer);
+        logger.info('Customer created', {customer});
         return customer;
     }
     
@@ -254,12 +259,12 @@ class StripeForm implements PaymentForm {
      */
     private initStripe(options?: PaymentProviderFormOptions): void {
         if (!this.stripe) {
-            logError('No stripe initialized')
+            logger.error('No stripe initialized')
             return
         }
 
         if (!this.customer) {
-            logError('Customer not initialized')
+            logger.error('Customer not initialized')
             return
         }
 
@@ -328,16 +333,17 @@ class StripeForm implements PaymentForm {
         const form = document.querySelector(`#${this.elementIDs.form}`)
 
         if (!form) {
-            logError("Payment form: no form provided")
+            logger.error("Payment form: no form provided")
             return
         }
 
-        form.addEventListener('submit', async (event) => {
+        this.form = form
+        this.submitHandler = async (event: Event): Promise<void> => {
             event.preventDefault()
             this.setButtonState("processing")
 
             if (!this.stripe || !this.elements) {
-                logError("Stripe or elements not initialized")
+                logger.error("Stripe or elements not initialized")
                 return
             }
 
@@ -378,7 +384,7 @@ class StripeForm implements PaymentForm {
                 // Handle successful subscription
                 const deepLink = this.subscription!.deep_link;
                 if (deepLink) {
-                    setCookie(DeepLinkURL, deepLink, SelectedProductDuration);
+                    storage().set(DeepLinkURL, deepLink, SelectedProductDuration);
                 }
 
                 setTimeout(() => {
@@ -390,7 +396,7 @@ class StripeForm implements PaymentForm {
                 }, config.redirectDelay);
 
             } catch (error) {
-                logError("Failed to process payment:", error)
+                logger.error("Failed to process payment", {error})
                 this.setButtonState("ready")
                 
                 const errorElement = document.querySelector(`#${this.elementIDs.error}`)
@@ -403,7 +409,26 @@ class StripeForm implements PaymentForm {
                     event: { error }
                 })
             }
-        })
+        }
+
+        form.addEventListener('submit', this.submitHandler)
+    }
+
+    /**
+     * Unmount Stripe elements and remove submit handler
+     */
+    public destroy(): void {
+        if (this.form && this.submitHandler) {
+            this.form.removeEventListener('submit', this.submitHandler)
+        }
+
+        this.paymentElement?.destroy()
+        this.paymentElement = null
+        this.elements = undefined
+        this.form = null
+        this.submitHandler = null
+        this.customer = null
+        this.subscription = null
     }
 
     // Add this helper method to ensure the URL has a scheme
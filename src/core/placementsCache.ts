@@ -0,0 +1,80 @@
+import {Placement} from "../types";
+import {config} from "./config/config";
+import {PlacementsCacheDuration, PlacementsCacheKey} from "./config/constants";
+import {cacheStorage} from "./storage";
+import {logger} from "./logger";
+
+interface CachedPlacements {
+    user_id: string
+    placements: Placement[]
+}
+
+/**
+ * Keeps the last received placements with their paywalls, so paywall can be rendered
+ * before user is loaded. Placements are localized, so cache is kept per language.
+ * Cache belongs to the user, so it is saved to persistent storage only with analytics consent
+ */
+class PlacementsCache {
+    /**
+     * Cached placements of user in current language
+     * @param userID - current user ID
+     * @returns placements or null if they are missing, expired or belong to another user
+     */
+    get(userID: string | undefined): Placement[] | null {
+        if (!this.isEnabled() || !userID) {
+            return null
+        }
+
+        try {
+            const cached = JSON.parse(cacheStorage().get(this.key()) || "null") as CachedPlacements | null
+
+            if (!cached || cached.user_id !== userID || !Array.isArray(cached.placements)) {
+                return null
+            }
+
+            return cached.placements
+        } catch (e) {
+            logger.error("Failed to read cached placements", {error: e})
+            return null
+        }
+    }
+
+    /**
+     * Save placements of user in current language
+     * @param userID - current user ID
+     * @param placements - placements received from Apphud
+     */
+    set(userID: string | undefined, placements: Placement[]): void {
+        if (!this.isEnabled() || !userID) {
+            return
+        }
+
+        const cached: CachedPlacements = {user_id: userID, placements: placements}
+
+        try {
+            cacheStorage().set(this.key(), JSON.stringify(cached), config.placementsCacheTTL ?? PlacementsCacheDuration)
+        } catch (e) {
+            logger.warn("Failed to cache placements", {error: e})
+        }
+    }
+
+    /**
+     * Remove cached placements in current language
+     */
+    clear(): void {
+        cacheStorage().delete(this.key())
+    }
+
+    /**
+     * Storage key of cache in current language
+     */
+    key(): string {
+        return `${PlacementsCacheKey}_${config.language}`
+    }
+
+    private isEnabled(): boolean {
+        return config.placementsCacheTTL !== 0
+    }
+}
+
+export default PlacementsCache
@@ -0,0 +1,80 @@
+import {config} from "./config/config";
+import {SessionKey, SessionStorageDuration} from "./config/constants";
+import {storage} from "./storage";
+import u from "../utils";
+import {logger} from "./logger";
+
+export interface Session {
+    id: string
+    started_at: number
+    last_activity: number
+}
+
+/**
+ * Groups user activity into sessions. Session ends after `config.sessionTimeout` minutes without events
+ */
+class SessionManager {
+    /**
+     * @param onStart - called when new session starts
+     * @param onEnd - called when idle session is replaced with a new one
+     */
+    constructor(private onStart: (session: Session) => void, private onEnd: (session: Session) => void) {}
+
+    /**
+     * Register user activity
+     * @returns id of the current session. New session starts if the previous one is idle for too long
+     */
+    touch(): string {
+        const now = Date.now()
+        let session = this.read()
+
+        if (session && now - session.last_activity >= this.timeout()) {
+            logger.info("Session ended", {sessionID: session.id})
+            this.onEnd(session)
+            session = null
+        }
+
+        if (!session) {
+            session = {id: u.generateId(), started_at: now, last_activity: now}
+            this.save(session)
+
+            logger.info("Session started", {sessionID: session.id})
+            this.onStart(session)
+
+            return session.id
+        }
+
+        session.last_activity = now
+        this.save(session)
+
+        return session.id
+    }
+
+    /**
+     * Forget current session without ending it
+     */
+    clear(): void {
+        storage().delete(SessionKey)
+    }
+
+    private timeout(): number {
+        return (config.sessionTimeout || 30) * 60 * 1000
+    }
+
+    private read(): Session | null {
+        try {
+            const session = JSON.parse(storage().get(SessionKey) || "null")
+
+            return session && session.id ? session : null
+        } catch (e) {
+            logger.error("Failed to read session", {error: e})
+            return null
+        }
+    }
+
+    private save(session: Session): void {
+        storage().set(SessionKey, JSON.stringify(session), SessionStorageDuration)
+    }
+}
+
+export default SessionManager
@@ -0,0 +1,89 @@
+import {StorageAdapter} from "../../types";
+
+interface PendingEntry {
+    value: string
+    ttl?: number
+    expires: number | null
+}
+
+/**
+ * Writes to persistent storage only the keys allowed by user consent.
+ * Other values are kept in memory and moved to persistent storage once consent is granted
+ */
+class ConsentStorage implements StorageAdapter {
+    private pending: Map<string, PendingEntry> = new Map()
+
+    /**
+     * @param persistent - storage used when consent allows it
+     * @param canPersist - whether value with given key can be saved to persistent storage
+     */
+    constructor(private persistent: StorageAdapter, private canPersist: (key: string) => boolean) {}
+
+    get(key: string): string | null {
+        const entry = this.pending.get(key)
+
+        if (entry) {
+            if (entry.expires === null || entry.expires > Date.now()) {
+                return entry.value
+            }
+
+            this.pending.delete(key)
+        }
+
+        return this.persistent.get(key)
+    }
+
+    set(key: string, value: string, ttl?: number): void {
+        if (this.canPersist(key)) {
+            this.pending.delete(key)
+            this.persistent.set(key, value, ttl)
+            return
+        }
+
+        this.pending.set(key, {
+            value: value,
+            ttl: ttl,
+            expires: ttl ? Date.now() + ttl * 60 * 1000 : null
+        })
+    }
+
+    delete(key: string): void {
+        this.pending.delete(key)
+        this.persistent.delete(key)
+    }
+
+    /**
+     * Move values allowed by consent from memory to persistent storage
+     */
+    persist(): void {
+        this.pending.forEach((entry, key) => {
+            if (this.canPersist(key) && (entry.expires === null || entry.expires > Date.now())) {
+                const ttl = entry.expires === null ? entry.ttl : (entry.expires - Date.now()) / (60 * 1000)
+
+                this.persistent.set(key, entry.value, ttl)
+                this.pending.delete(key)
+            }
+        })
+    }
+
+    /**
+     * Remove values that are not allowed by consent anymore from persistent storage and keep them in memory
+     * @param keys - keys to check
+     */
+    withdraw(keys: string[]): void {
+        keys.forEach(key => {
+            if (this.canPersist(key)) {
+                return
+            }
+
+            const value = this.persistent.get(key)
+
+            if (value !== null) {
+                this.pending.set(key, {value: value, expires: null})
+                this.persistent.delete(key)
+            }
+        })
+    }
+}
+
+export default ConsentStorage
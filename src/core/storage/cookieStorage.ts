@@ -0,0 +1,53 @@
+import {StorageAdapter} from "../../types";
+import {deleteCookie, getCookie, getCookies, setCookie} from "../../cookies";
+import {config} from "../config/config";
+import {logger} from "../logger";
+
+/**
+ * Stores SDK state in first-party cookies
+ */
+class CookieStorage implements StorageAdapter {
+    get(key: string): string | null {
+        return getCookie(key)
+    }
+
+    set(key: string, value: string, ttl?: number): void {
+        setCookie(key, value, ttl || 0)
+    }
+
+    delete(key: string): void {
+        deleteCookie(key)
+    }
+
+    /**
+     * Move host-only cookies to the domain from `config.cookie.domain`,
+     * so users keep their identity after switching to a shared domain.
+     * If the shared cookie already exists it wins, because it was set by another subdomain earlier
+     * @param keys - cookie names with their time to live in minutes
+     */
+    migrateHostOnlyCookies(keys: { [key: string]: number }): void {
+        const options = config.cookie || {}
+
+        if (!options.domain) {
+            return
+        }
+
+        for (const key in keys) {
+            const values = getCookies(key)
+
+            if (values.length === 0) {
+                continue
+            }
+
+            // host-only cookie has no domain attribute and was always written with path "/"
+            deleteCookie(key, {...options, domain: undefined, path: "/"})
+
+            if (getCookie(key) === null) {
+                logger.debug("Migrate cookie to domain", {key, domain: options.domain})
+                setCookie(key, values[0], keys[key], options)
+            }
+        }
+    }
+}
+
+export default CookieStorage
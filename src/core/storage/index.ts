@@ -0,0 +1,124 @@
+import {StorageAdapter, StorageKind} from "../../types";
+import {config} from "../config/config";
+import {logger} from "../logger";
+import CookieStorage from "./cookieStorage";
+import MemoryStorage from "./memoryStorage";
+import WebStorage from "./webStorage";
+import ConsentStorage from "./consentStorage";
+import {consent} from "../consent";
+
+let resolvedOption: StorageKind | StorageAdapter | undefined = undefined
+let resolvedStorage: StorageAdapter | undefined = undefined
+let resolvedConsentStorage: ConsentStorage | undefined = undefined
+let resolvedOutboxStorage: StorageAdapter | undefined = undefined
+let resolvedOutboxConsentStorage: ConsentStorage | undefined = undefined
+
+/**
+ * Create storage adapter by its kind. Falls back to memory storage when Web Storage is not accessible
+ * @param kind - storage kind
+ */
+const createStorage = (kind: StorageKind): StorageAdapter => {
+    switch (kind) {
+        case "localStorage":
+            if (WebStorage.isAvailable(() => window.localStorage)) {
+                return new WebStorage(window.localStorage)
+            }
+            break
+        case "sessionStorage":
+            if (WebStorage.isAvailable(() => window.sessionStorage)) {
+                return new WebStorage(window.sessionStorage)
+            }
+            break
+        case "memory":
+            return new MemoryStorage()
+        case "cookie":
+            return new CookieStorage()
+        default:
+            logger.warn(`Unknown storage "${kind}". Falling back to cookies`)
+            return new CookieStorage()
+    }
+
+    logger.warn(`Storage "${kind}" is not available. Falling back to memory storage`)
+
+    return new MemoryStorage()
+}
+
+/**
+ * Storage configured with `config.storage`, regardless of consent
+ */
+export const configuredStorage = (): StorageAdapter => {
+    const option = config.storage || "cookie"
+
+    if (!resolvedStorage || resolvedOption !== option) {
+        resolvedStorage = typeof option === "string" ? createStorage(option) : option
+        resolvedOption = option
+        resolvedConsentStorage = undefined
+    }
+
+    return resolvedStorage
+}
+
+/**
+ * Storage configured with `config.storage`. When consent is required,
+ * values are kept in memory until user allows to save them
+ */
+export const storage = (): StorageAdapter => {
+    const persistent = configuredStorage()
+
+    if (!config.consentRequired) {
+        return persistent
+    }
+
+    if (!resolvedConsentStorage) {
+        resolvedConsentStorage = new ConsentStorage(persistent, (key: string): boolean => consent.canPersist(key))
+    }
+
+    return resolvedConsentStorage
+}
+
+/**
+ * Storage for the events outbox. Cookies are too small for queued events,
+ * so localStorage is used instead of them. Other configured storages are used as is.
+ * Like `storage()`, it is wrapped by consent check when consent is required
+ */
+export const outboxStorage = (): StorageAdapter => {
+    if ((config.storage || "cookie") !== "cookie") {
+        return storage()
+    }
+
+    if (!resolvedOutboxStorage) {
+        resolvedOutboxStorage = createStorage("localStorage")
+    }
+
+    if (!config.consentRequired) {
+        return resolvedOutboxStorage
+    }
+
+    if (!resolvedOutboxConsentStorage) {
+        resolvedOutboxConsentStorage = new ConsentStorage(resolvedOutboxStorage, (key: string): boolean => consent.canPersist(key))
+    }
+
+    return resolvedOutboxConsentStorage
+}
+
+/**
+ * Storage for cached placements. Like the outbox, they don't fit in cookies
+ */
+export const cacheStorage = (): StorageAdapter => outboxStorage()
+
+/**
+ * Storages wrapped by consent check, to persist or withdraw their values when consent changes
+ */
+export const consentStorages = (): ConsentStorage[] => {
+    const storages: ConsentStorage[] = []
+
+    for (const adapter of [storage(), outboxStorage()]) {
+        if (adapter instanceof ConsentStorage && !storages.includes(adapter)) {
+            storages.push(adapter)
+        }
+    }
+
+    return storages
+}
+
+export {CookieStorage, MemoryStorage, WebStorage, ConsentStorage, createStorage}
@@ -0,0 +1,41 @@
+import {StorageAdapter} from "../../types";
+
+interface MemoryEntry {
+    value: string
+    expires: number | null
+}
+
+/**
+ * Keeps SDK state in memory only. Nothing survives a page reload
+ */
+class MemoryStorage implements StorageAdapter {
+    private entries: Map<string, MemoryEntry> = new Map()
+
+    get(key: string): string | null {
+        const entry = this.entries.get(key)
+
+        if (!entry) {
+            return null
+        }
+
+        if (entry.expires !== null && entry.expires <= Date.now()) {
+            this.entries.delete(key)
+            return null
+        }
+
+        return entry.value
+    }
+
+    set(key: string, value: string, ttl?: number): void {
+        this.entries.set(key, {
+            value: value,
+            expires: ttl ? Date.now() + ttl * 60 * 1000 : null
+        })
+    }
+
+    delete(key: string): void {
+        this.entries.delete(key)
+    }
+}
+
+export default MemoryStorage
@@ -0,0 +1,66 @@
+import {StorageAdapter} from "../../types";
+
+interface WebStorageEntry {
+    value: string
+    expires: number | null
+}
+
+/**
+ * Stores SDK state in `localStorage` or `sessionStorage`.
+ * Web Storage has no expiration, so every value is saved together with its expiration time
+ */
+class WebStorage implements StorageAdapter {
+    constructor(private area: Storage) {}
+
+    /**
+     * Check that storage area is accessible. Access throws in sandboxed iframes
+     * and when site data is blocked by the browser
+     * @param area - storage area getter
+     */
+    static isAvailable(area: () => Storage): boolean {
+        try {
+            const key = "__aph_storage_test__"
+            area().setItem(key, key)
+            area().removeItem(key)
+            return true
+        } catch {
+            return false
+        }
+    }
+
+    get(key: string): string | null {
+        const raw = this.area.getItem(key)
+
+        if (raw === null) {
+            return null
+        }
+
+        try {
+            const entry = JSON.parse(raw) as WebStorageEntry
+
+            if (entry.expires !== null && entry.expires <= Date.now()) {
+                this.area.removeItem(key)
+                return null
+            }
+
+            return entry.value
+        } catch {
+            return null
+        }
+    }
+
+    set(key: string, value: string, ttl?: number): void {
+        const entry: WebStorageEntry = {
+            value: value,
+            expires: ttl ? Date.now() + ttl * 60 * 1000 : null
+        }
+
+        this.area.setItem(key, JSON.stringify(entry))
+    }
+
+    delete(key: string): void {
+        this.area.removeItem(key)
+    }
+}
+
+export default WebStorage
@@ -0,0 +1,114 @@
+import {UserProperty} from "../types";
+import {config} from "./config/config";
+import {UserPropertiesKey, UserCookieDuration} from "./config/constants";
+import {storage} from "./storage";
+import {logger} from "./logger";
+
+/**
+ * Collects user property operations and sends them in batches.
+ * Operations are saved to storage until they are sent, so they survive page reload
+ */
+class UserPropertiesQueue {
+    private operations: UserProperty[] = []
+    private flushTimer: ReturnType<typeof setTimeout> | undefined = undefined
+
+    /**
+     * @param send - sends operations to Apphud. Resolves with false if they have to be sent again
+     */
+    constructor(private send: (operations: UserProperty[]) => Promise<boolean>) {}
+
+    /**
+     * Restore operations that were not sent before page reload
+     */
+    load(): void {
+        try {
+            const saved = JSON.parse(storage().get(UserPropertiesKey) || "[]")
+
+            this.operations = Array.isArray(saved) ? saved : []
+        } catch (e) {
+            logger.error("Failed to restore user properties", {error: e})
+            this.operations = []
+        }
+
+        this.schedule()
+    }
+
+    /**
+     * Queue operation
+     * @param operation - user property operation
+     */
+    add(operation: UserProperty): void {
+        logger.debug("User property", {operation})
+
+        this.operations.push(operation)
+        this.save()
+        this.schedule()
+    }
+
+    /**
+     * Send queued operations
+     */
+    async flush(): Promise<void> {
+        if (this.flushTimer !== undefined) {
+            clearTimeout(this.flushTimer)
+            this.flushTimer = undefined
+        }
+
+        const operations = this.operations
+
+        if (operations.length === 0) {
+            return
+        }
+
+        this.operations = []
+
+        let sent = false
+
+        try {
+            sent = await this.send(operations)
+        } catch (e) {
+            logger.error("Failed to send user properties", {error: e})
+        }
+
+        if (!sent) {
+            // keep order: failed operations go before the ones added meanwhile
+            this.operations = operations.concat(this.operations)
+        }
+
+        this.save()
+    }
+
+    /**
+     * Drop queued operations
+     */
+    clear(): void {
+        if (this.flushTimer !== undefined) {
+            clearTimeout(this.flushTimer)
+            this.flushTimer = undefined
+        }
+
+        this.operations = []
+        storage().delete(UserPropertiesKey)
+    }
+
+    private schedule(): void {
+        if (this.flushTimer !== undefined || this.operations.length === 0) {
+            return
+        }
+
+        this.flushTimer = setTimeout(() => {
+            this.flushTimer = undefined
+            this.flush()
+        }, config.eventsFlushInterval)
+    }
+
+    private save(): void {
+        if (this.operations.length === 0) {
+            storage().delete(UserPropertiesKey)
+        } else {
+            storage().set(UserPropertiesKey, JSON.stringify(this.operations), UserCookieDuration)
+        }
+    }
+}
+
+export default UserPropertiesQueue
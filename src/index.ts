@@ -1,5 +1,7 @@
 export * from './types'
 export * from './core'
+export {CookieStorage, MemoryStorage, WebStorage} from './core/storage'
+export * from './core/errors'
 
 import Apphud from "./core";
 
@@ -36,3 +36,48 @@ export interface CustomerParams {
     user_id: string
     payment_methods?: string[]
 }
+
+/**
+ * HTTP request sent to Apphud API
+ */
+export interface ApiRequest {
+    url: string
+    init: RequestInit
+}
+
+/**
+ * Function that sends HTTP requests. Same signature as `fetch`
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>
+
+/**
+ * Called before request is sent. May change URL, headers or other request options
+ */
+export type RequestInterceptor = (request: ApiRequest) => ApiRequest | Promise<ApiRequest>
+
+/**
+ * Called when response is received, before it is processed by the SDK
+ */
+export type ResponseInterceptor = (response: Response, request: ApiRequest) => Response | Promise<Response>
+
+/**
+ * Which failed requests are retried and how long to wait between attempts
+ */
+export interface RetryPolicy {
+    /**
+     * Number of retries after the first attempt. Default: `config.httpRetriesCount`
+     */
+    retries?: number
+    /**
+     * Base delay before retry in milliseconds. Doubles with every attempt. Default: `config.httpRetryDelay`
+     */
+    delay?: number
+    /**
+     * Maximum delay before retry in milliseconds, including `Retry-After`. Default: 30000
+     */
+    maxDelay?: number
+    /**
+     * HTTP statuses worth retrying. Network errors and timeouts are always retried. Default: 408, 429 and 5xx
+     */
+    statuses?: number[]
+}
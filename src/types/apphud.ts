@@ -2,6 +2,10 @@ import {
     LifecycleEventCallback,
     PaymentProviderFormOptions
 } from "./paymentForm";
+import {CookieOptions, StorageAdapter, StorageKind} from "./storage";
+import {RequestInterceptor, ResponseInterceptor, RetryPolicy, Transport} from "./api";
+import {LoggerOptions} from "./logger";
+import {MockBackend, MockFixtures} from "./mock";
 
 export type ApphudHash = { [key: string]: any }
 
@@ -28,6 +32,24 @@ export interface User {
     currency: Currency
 }
 
+/**
+ * SDK state prepared on server side
+ */
+export interface Bootstrap {
+    /**
+     * User returned by Apphud API, including placements
+     */
+    user: User
+    /**
+     * Identifier of selected placement. Default: saved selection
+     */
+    placementID?: string
+    /**
+     * Index of selected product bundle in placement paywall. Default: 0
+     */
+    bundleIndex?: number
+}
+
 export type PaymentProviderKind = "stripe" | "paddle"
 export type AttributionData = Record<string, string | Record<string, null | string | string[]>>
 export interface PaymentProvider {
@@ -106,6 +128,81 @@ export interface Apphud {
      */
     track: (name: string, properties: ApphudHash, userProperties: ApphudHash) => boolean;
 
+    /**
+     * Tracks an event and waits until it is accepted by Apphud.
+     * @param {string} name - The name of the event to track.
+     * @param {ApphudHash} properties - Event-specific properties.
+     * @param {ApphudHash} userProperties - User-specific properties.
+     * @returns {Promise<void>} A promise that resolves when the event is delivered
+     * and rejects with EventDeliveryError when delivery failed after all retries.
+     */
+    trackAsync: (name: string, properties: ApphudHash, userProperties: ApphudHash) => Promise<void>;
+
+    /**
+     * Registers properties that are merged into every tracked event.
+     * Properties passed to `track` take precedence.
+     * @param {ApphudHash} properties - Properties to register.
+     */
+    register: (properties: ApphudHash) => void;
+
+    /**
+     * Registers properties that are merged into every tracked event, keeping already registered values.
+     * @param {ApphudHash} properties - Properties to register.
+     */
+    registerOnce: (properties: ApphudHash) => void;
+
+    /**
+     * Removes a registered property.
+     * @param {string} key - The name of the property.
+     */
+    unregister: (key: string) => void;
+
+    /**
+     * Sets user property value.
+     * @param {string} name - The name of the property.
+     * @param {UserPropertyValue} value - The value to set.
+     */
+    setUserProperty: (name: string, value: UserPropertyValue) => void;
+
+    /**
+     * Sets user property value only if the property has no value yet.
+     * @param {string} name - The name of the property.
+     * @param {UserPropertyValue} value - The value to set.
+     */
+    setUserPropertyOnce: (name: string, value: UserPropertyValue) => void;
+
+    /**
+     * Increments numeric user property.
+     * @param {string} name - The name of the property.
+     * @param {number} [by] - The value to add. Defaults to 1.
+     */
+    incrementUserProperty: (name: string, by?: number) => void;
+
+    /**
+     * Removes user property.
+     * @param {string} name - The name of the property.
+     */
+    unsetUserProperty: (name: string) => void;
+
+    /**
+     * Appends value to the list stored in user property.
+     * @param {string} name - The name of the property.
+     * @param {UserPropertyValue} value - The value to append.
+     */
+    appendUserProperty: (name: string, value: UserPropertyValue) => void;
+
+    /**
+     * Updates user consent. Categories missing in `consent` keep their state.
+     * @param {Consent} consent - User choices by category.
+     */
+    setConsent: (consent: Consent) => void;
+
+    /**
+     * Retrieves the current user consent.
+     * @returns {Consent} User choices by category.
+     */
+    getConsent: () => Consent;
+
     /**
      * Sets the email address for the current user.
      * @param {string} email - The user's email address.
@@ -125,16 +222,38 @@ export interface Apphud {
     operateVariables: () => void;
 
     /**
-     * Retrieves the current user ID.
+     * Retrieves the current user ID: the identified customer ID or the anonymous device ID.
      * @returns {string | undefined} The user ID, or undefined if not available.
      */
     getUserID: () => string | undefined;
 
+    /**
+     * Retrieves the anonymous device ID.
+     * @returns {string | undefined} The device ID, or undefined if not available.
+     */
+    getDeviceID: () => string | undefined;
+
+    /**
+     * Identifies the current user with your customer ID, keeping the anonymous device ID.
+     * @param {string} customerID - Your customer ID.
+     * @returns {Promise<void>} A promise that resolves when the customer is updated.
+     */
+    identify: (customerID: string) => Promise<void>;
+
+    /**
+     * Links an anonymous device ID to a customer ID.
+     * @param {string} customerID - Your customer ID.
+     * @param {string} [anonymousID] - Anonymous device ID. Defaults to the current device ID.
+     * @returns {Promise<void>} A promise that resolves when the IDs are linked.
+     */
+    alias: (customerID: string, anonymousID?: string) => Promise<void>;
+
     /**
      * Resets the Apphud SDK state.
+     * @param {ResetOptions} [options] - Reset options.
      * @returns {boolean} True if the reset was successful, otherwise false.
      */
-    reset: () => boolean;
+    reset: (options?: ResetOptions) => boolean;
 
     /**
      * Gets the current user details.
@@ -210,6 +329,37 @@ export interface Apphud {
      * @param {LifecycleEventCallback} callback - The callback to execute when the event occurs.
      */
     on: (eventName: LifecycleEventName, callback: LifecycleEventCallback) => void;
+
+    /**
+     * Retrieves the mock backend with recorded requests, events and attribution calls.
+     * @returns {MockBackend | undefined} The mock backend, or undefined if mock mode is off.
+     */
+    getMockBackend: () => MockBackend | undefined;
+}
+
+export type ConsentCategory = "necessary" | "analytics" | "marketing"
+
+export type ConsentState = "granted" | "denied" | "pending"
+
+/**
+ * User consent by category. Necessary category is always granted
+ */
+export type Consent = {
+    /**
+     * Event tracking, sessions and saving user identity to cookies or other persistent storage
+     */
+    analytics?: boolean
+    /**
+     * Attribution: Facebook Pixel, Google Analytics client ID and URL parameters
+     */
+    marketing?: boolean
+}
+
+export type ResetOptions = {
+    /**
+     * Create a new anonymous user right after reset. Default: false
+     */
+    newUser?: boolean
 }
 
 export type Config = {
@@ -218,14 +368,127 @@ export type Config = {
     baseSuccessURL: string
     redirectDelay: number
     debug: boolean
+    /**
+     * Log level and adapter of SDK diagnostics
+     */
+    logger?: LoggerOptions
+    /**
+     * Serve API requests with in-process mock backend instead of Apphud API.
+     * Fixtures object or URL of fixtures JSON. API key is not required in mock mode
+     */
+    mock?: MockFixtures | string
+    /**
+     * User rendered into the page by your server. SDK becomes ready with it right away
+     * and refreshes user in background. Also read from `<script type="application/json" id="apphud-bootstrap">`
+     */
+    bootstrap?: Bootstrap
+    /**
+     * How long placements are cached in minutes. Cached placements are rendered right away
+     * and refreshed in background. 0 disables cache. Default: 1440 (1 day)
+     */
+    placementsCacheTTL?: number
     language: string
     websiteVersion: string
     httpRetriesCount: number
     httpRetryDelay: number
     headers: HeadersInit
+    /**
+     * Request timeout in milliseconds. Timed out request is aborted and retried. 0 disables timeout. Default: 15000
+     */
+    httpTimeout?: number
+    /**
+     * Retry policy of API requests
+     */
+    retryPolicy?: RetryPolicy
+    /**
+     * Retry policies of specific endpoints, e.g. `{ "/events": { retries: 10 } }`.
+     * Endpoint parameters are written as `:id`, e.g. `/payment_providers/:id/subscriptions`
+     */
+    endpointRetryPolicies?: { [endpoint: string]: RetryPolicy }
+    /**
+     * Function used to send API requests instead of `fetch`, e.g. to proxy them through your gateway
+     */
+    transport?: Transport
+    /**
+     * Functions called before every API request, in order
+     */
+    requestInterceptors?: RequestInterceptor[]
+    /**
+     * Functions called with every API response, in order
+     */
+    responseInterceptors?: ResponseInterceptor[]
     stripeLiveKey: string
     stripeTestKey: string
     options?: PaymentOptions
+    /**
+     * Where SDK keeps its state: user ID, events queue, selected product and deep link.
+     * One of built-in storages or custom adapter. Default: "cookie"
+     */
+    storage?: StorageKind | StorageAdapter
+    /**
+     * Attributes of cookies written by the SDK: domain, path, Secure and SameSite
+     */
+    cookie?: CookieOptions
+    /**
+     * Limits of the persistent queue of undelivered events
+     */
+    outbox?: OutboxOptions
+    /**
+     * Maximum number of events sent in one request. Default: 10
+     */
+    eventsBatchSize?: number
+    /**
+     * How long to wait for more events before sending a batch, in milliseconds. Default: 1000
+     */
+    eventsFlushInterval?: number
+    /**
+     * Events tracked automatically
+     */
+    autoTrack?: AutoTrackOptions
+    /**
+     * Session ends after this number of minutes without events. Default: 30
+     */
+    sessionTimeout?: number
+    /**
+     * Wait for user consent, given with `setConsent`, before tracking events, saving user identity
+     * and sending attribution. Default: false
+     */
+    consentRequired?: boolean
+    /**
+     * Skip Facebook external_id, Google Analytics client ID and URL parameters in attribution
+     * when browser sends Global Privacy Control or Do Not Track signal. Default: false
+     */
+    respectPrivacySignals?: boolean
+}
+
+export type AutoTrackOptions = {
+    /**
+     * Track `page_view` on page load and on route changes of single-page apps. Default: false
+     */
+    pageViews?: boolean
+    /**
+     * Track clicks on elements with `data-aph-track` attribute. Default: true
+     */
+    clicks?: boolean
+}
+
+export type OutboxOptions = {
+    /**
+     * Maximum number of queued events. Default: 100
+     */
+    maxEvents?: number
+    /**
+     * Maximum size of serialized queue in bytes. Default: 256 KB
+     */
+    maxSize?: number
+    /**
+     * Maximum age of queued event in minutes. Default: 7 days
+     */
+    maxAge?: number
+    /**
+     * How long insert ids of delivered events are remembered to skip duplicates, in minutes. Default: 24 hours
+     */
+    dedupeWindow?: number
 }
 
 export type PaymentOptions = {
@@ -239,6 +502,7 @@ export interface EventData {
     properties: ApphudHash | undefined | null
     user_properties?: ApphudHash | undefined | null
     insert_id?: string | null | undefined
+    session_id?: string
     timestamp?: number
     device_id?: string | null
     user_id?: string | null
@@ -251,8 +515,36 @@ export interface Events {
     events_json?: string
 }
 
+export type UserPropertyValue = string | number | boolean | null
+
+/**
+ * Operation on user property. Value is set if no flag is given, `null` value removes the property
+ */
+export interface UserProperty {
+    name: string
+    value: UserPropertyValue
+    /**
+     * Set value only if property has no value yet
+     */
+    set_once?: boolean
+    /**
+     * Add numeric value to current value
+     */
+    increment?: boolean
+    /**
+     * Append value to the list stored in property
+     */
+    append?: boolean
+}
+
 export interface CustomerData {
+    /**
+     * Customer ID passed to `identify`, or anonymous device ID if user is not identified
+     */
     user_id?: string
+    /**
+     * Anonymous device ID generated by the SDK
+     */
     device_id?: string
     locale: string
     email?: string | undefined | null
@@ -273,5 +565,9 @@ export interface CustomerData {
     need_placements: boolean
     page_url: string
     user_agent: string
+    /**
+     * User property operations
+     */
+    properties?: UserProperty[]
 }
-export type LifecycleEventName = "payment_form_initialized" | "ready" | "payment_form_ready" | "payment_success" | "payment_failure" | "product_changed" | "payment_provider_changed"
+export type LifecycleEventName = "payment_form_initialized" | "ready" | "payment_form_ready" | "payment_success" | "payment_failure" | "product_changed" | "payment_provider_changed" | "reset" | "consent_changed" | "online" | "offline" | "error" | "placements_updated"
@@ -1,3 +1,6 @@
 export * from './api'
 export * from './paymentForm'
 export * from './apphud'
+export * from './storage'
+export * from './logger'
+export * from './mock'
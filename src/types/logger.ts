@@ -0,0 +1,28 @@
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+/**
+ * Structured details of log message, e.g. `{ placementID: "main" }`
+ */
+export type LogContext = { [key: string]: unknown }
+
+/**
+ * Receives SDK diagnostics, e.g. to forward them to your observability stack
+ */
+export interface LoggerAdapter {
+    debug: (message: string, context?: LogContext) => void
+    info: (message: string, context?: LogContext) => void
+    warn: (message: string, context?: LogContext) => void
+    error: (message: string, context?: LogContext) => void
+}
+
+export interface LoggerOptions {
+    /**
+     * Minimum level of messages passed to adapter, or "silent" to disable logging.
+     * Default: "debug" with `config.debug`, otherwise "warn"
+     */
+    level?: LogLevel | "silent"
+    /**
+     * Adapter receiving messages. Default: browser console
+     */
+    adapter?: LoggerAdapter
+}
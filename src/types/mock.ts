@@ -0,0 +1,74 @@
+import {AttributionData, EventData, Paywall, PaymentProvider, Placement, User} from "./apphud";
+import {CustomerSetup, Subscription, SubscriptionParams} from "./api";
+
+/**
+ * Data served by mock backend
+ */
+export interface MockFixtures {
+    /**
+     * Users returned by `/customers`. User is matched by `user_id`, the first one is used otherwise
+     */
+    users?: Partial<User>[]
+    /**
+     * Placements of every user
+     */
+    placements?: Placement[]
+    /**
+     * Paywalls of every user
+     */
+    paywalls?: Paywall[]
+    /**
+     * Payment providers of every user
+     */
+    paymentProviders?: PaymentProvider[]
+    /**
+     * Subscription returned on checkout
+     */
+    subscription?: Partial<Subscription>
+    /**
+     * Payment provider customer returned on checkout
+     */
+    customer?: Partial<CustomerSetup>
+    /**
+     * Delay of every response in milliseconds. Default: 0
+     */
+    latency?: number
+}
+
+export interface MockRequest {
+    method: string
+    url: string
+    body: unknown
+}
+
+export interface MockAttribution {
+    params: Record<string, string>
+    data: AttributionData
+}
+
+/**
+ * In-process backend used instead of Apphud API in mock mode. Records received requests
+ */
+export interface MockBackend {
+    /**
+     * All received requests
+     */
+    requests: MockRequest[]
+    /**
+     * Received events
+     */
+    events: EventData[]
+    /**
+     * Received attribution calls
+     */
+    attributions: MockAttribution[]
+    /**
+     * Received subscription requests
+     */
+    subscriptions: SubscriptionParams[]
+
+    /**
+     * Forget recorded requests
+     */
+    clear: () => void
+}
@@ -9,6 +9,7 @@ export interface PaymentForm {
         options: PaymentProviderFormOptions,
         subscriptionOptions?: SubscriptionOptions
     ) => Promise<void>
+    destroy: () => void
 }
 
 export type LifecycleEvents = { [eventName: string]: LifecycleEventCallback[] }
@@ -21,6 +22,7 @@ export interface PaymentFormBuilder {
         options: PaymentProviderFormOptions,
         bundle?: ProductBundle
     ) => Promise<void>
+    destroy: () => void
 }
 
 export interface PaymentProviderFormOptions {
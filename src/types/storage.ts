@@ -0,0 +1,55 @@
+/**
+ * Key-value storage used by the SDK to persist its state between page loads
+ */
+export interface StorageAdapter {
+    /**
+     * Read value by key
+     * @param key - storage key
+     * @returns stored value or null if it is missing or expired
+     */
+    get: (key: string) => string | null
+
+    /**
+     * Save value by key
+     * @param key - storage key
+     * @param value - value to store
+     * @param ttl - time to live in minutes. If omitted, value does not expire and lives as long as
+     * the underlying storage keeps it: until the browser session ends for cookies and sessionStorage,
+     * indefinitely for localStorage, until page unload for memory storage
+     */
+    set: (key: string, value: string, ttl?: number) => void
+
+    /**
+     * Remove value by key
+     * @param key - storage key
+     */
+    delete: (key: string) => void
+}
+
+export type StorageKind = "cookie" | "localStorage" | "sessionStorage" | "memory"
+
+/**
+ * Attributes of cookies written by the SDK
+ */
+export interface CookieOptions {
+    /**
+     * Cookie domain. Set to parent domain, e.g. `.example.com`, to share user identity between subdomains.
+     * Cookies are host-only if omitted
+     */
+    domain?: string
+
+    /**
+     * Send cookies over HTTPS only. Always enabled when `sameSite` is "none"
+     */
+    secure?: boolean
+
+    /**
+     * SameSite attribute. Default: "lax"
+     */
+    sameSite?: "lax" | "strict" | "none"
+
+    /**
+     * Cookie path. Default: "/"
+     */
+    path?: string
+}
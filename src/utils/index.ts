@@ -7,16 +7,6 @@ const sleep = (ms: number): Promise<void> => {
     return new Promise(resolve => setTimeout(resolve, ms));
 }
 
-export const log = (...message: any[]): void => {
-    if (config.debug) {
-        window.console.log(...message);
-    }
-}
-
-export const logError = (...message: any[]): void => {
-    window.console.error(...message);
-}
-
 const cleanObject = (obj: ApphudHash): ApphudHash => {
     for (const key in obj) {
         if (Object.prototype.hasOwnProperty.call(obj, key)) {
@@ -86,16 +76,22 @@ const presence = (str: string): string | null => {
     return (str && str.length > 0) ? str : null;
 }
 
-const getClosest = (element: Element | EventTarget | null, attribute: string): string | null => {
+const getClosestElement = (element: Element | EventTarget | null, attribute: string): Element | null => {
     while (element && (element as any) !== document.documentElement) {
-        if ((element as any).hasAttribute(attribute)) {
-            return (element as any).getAttribute(attribute);
+        if (typeof (element as any).hasAttribute === "function" && (element as any).hasAttribute(attribute)) {
+            return element as Element;
         }
         element = (element as any).parentElement;
     }
     return null;
 }
 
+const getClosest = (element: Element | EventTarget | null, attribute: string): string | null => {
+    const closest = getClosestElement(element, attribute);
+
+    return closest ? closest.getAttribute(attribute) : null;
+}
+
 const getLocale = (): string => {
     // Get the user's preferred language
     return navigator.language
@@ -167,6 +163,40 @@ const getOSVersion = (): string => {
     return osVersion;
 }
 
+/**
+ * Whether browser has network connection. Unknown state is treated as online
+ */
+const isOnline = (): boolean => {
+    return typeof navigator === "undefined" || navigator.onLine !== false
+}
+
+/**
+ * Resolves when browser goes online
+ */
+const waitForOnline = (): Promise<void> => {
+    return new Promise(resolve => {
+        if (isOnline()) {
+            resolve()
+            return
+        }
+
+        window.addEventListener("online", () => resolve(), {once: true})
+    })
+}
+
+/**
+ * Whether browser sends Global Privacy Control or Do Not Track signal
+ */
+const hasPrivacySignal = (): boolean => {
+    if ((navigator as any).globalPrivacyControl === true) {
+        return true
+    }
+
+    const doNotTrack = navigator.doNotTrack || (window as any).doNotTrack || (navigator as any).msDoNotTrack
+
+    return doNotTrack === "1" || doNotTrack === "yes"
+}
+
 const timestamp = (): number => {
     return (new Date()).getTime() / 1000.0
 }
@@ -249,7 +279,11 @@ export default {
     getCurrencyCode,
     getCountryCode,
     getOSVersion,
+    hasPrivacySignal,
+    isOnline,
+    waitForOnline,
     getClosest,
+    getClosestElement,
     timestamp,
     getValueByPath,
     roundTo,